@@ -0,0 +1,42 @@
+/**
+ * 开发服务器的实时刷新客户端。文件重新生成后刷新页面；如果只有 CSS 文件更改，则只替换样式表；如果收到模块热替换的更新代码，则只执行更新代码。
+ */
+(function () {
+
+    if (typeof EventSource === "undefined") return;
+
+    var source = new EventSource("/__tpack__/livereload");
+    source.onmessage = function (e) {
+        var message = JSON.parse(e.data);
+
+        // 更新代码载入后由 __tpack__.hotUpdate() 替换模块。
+        if (message.type === "hot") {
+            if (typeof __tpack__ === "undefined" || !__tpack__.hot) {
+                location.reload();
+                return;
+            }
+            var script = document.createElement("script");
+            script.src = message.url;
+            (document.head || document.documentElement).appendChild(script);
+            return;
+        }
+
+        if (message.type !== "css") {
+            location.reload();
+            return;
+        }
+
+        // 只替换已更改的样式表。
+        var links = document.getElementsByTagName("link");
+        var a = document.createElement("a");
+        for (var i = 0; i < links.length; i++) {
+            var link = links[i];
+            if (!/\bstylesheet\b/i.test(link.rel)) continue;
+            a.href = link.href;
+            if (a.host !== location.host || message.paths.indexOf(decodeURIComponent(a.pathname)) < 0) continue;
+            var href = link.getAttribute("href").replace(/([?&])__livereload=\d+&?/, "$1").replace(/[?&]$/, "");
+            link.setAttribute("href", href + (href.indexOf("?") >= 0 ? "&" : "?") + "__livereload=" + new Date().getTime());
+        }
+    };
+
+})();
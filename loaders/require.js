@@ -106,11 +106,35 @@ var __tpack__ = __tpack__ || {
         var notAbsolute = !/^\/|\/\//.test(url);
         if (url.charCodeAt(0) !== 46/*.*/ && notAbsolute) return url;
         url = url.replace(/((?:^|\/|\\)[^\/\\\?#\.]+)([?#].*)?$/, "$1.js$2");
+
+        // 非浏览器环境（如以库方式在 NodeJs 中载入）手动合并路径。
+        if (typeof document === "undefined") {
+            var parts = (notAbsolute ? baseUrl.replace(/[?#].*$/, "") + "/../" + url : url).split("/");
+            for (var result = [], i = 0; i < parts.length; i++) {
+                if (parts[i] === "..") {
+                    result.length && result[result.length - 1] !== ".." ? result.pop() : result.push("..");
+                } else if (parts[i] !== ".") {
+                    result.push(parts[i]);
+                }
+            }
+            return result.join("/");
+        }
+
         var link = __tpack__._link || (__tpack__._link = document.createElement("a"));
         link.href = notAbsolute ? baseUrl.replace(/[?#].*$/, "") + "/../" + url : url;
         return /*@cc_on 1 ? __tpack__.getSrc(link, "href") : @*/link.href;
     },
 
+    /**
+     * 应用已定义的模块并执行入口模块。用于以库方式导出模块。
+     * @param {string} url 入口模块的地址。
+     * @returns {object} 返回入口模块的导出对象。
+     */
+    exec: function (url) {
+        __tpack__._fetch(url);
+        return __tpack__.get(__tpack__.resolve(url, url).toLowerCase());
+    },
+
     /**
      * 获取指定的模块导出对象。
      * @param {string} id 模块的键。
@@ -121,17 +145,74 @@ var __tpack__ = __tpack__ || {
         if (!module) return;
         if (!module.hasOwnProperty("exports") && module.define) {
             module.exports = {};
+            if (__tpack__.hot) __tpack__._createHot(module);
             module.define.call(module.exports, module.require = function (url, callback) {
-                return __tpack__.require(url, callback, module.url);
+                var exports = __tpack__.require(url, callback, module.url);
+
+                // 记录依赖关系，以便热替换时向上冒泡。
+                if (__tpack__.hot && typeof url === "string") {
+                    var required = __tpack__.modules[__tpack__.resolve(module.url, url).toLowerCase()];
+                    if (required) {
+                        required.parents = required.parents || [];
+                        if (required.parents.indexOf(id) < 0) required.parents.push(id);
+                    }
+                }
+
+                return exports;
             }, module.exports, module);
-        }
-        if (module.exports && module.exports.__esModule && module.exports["default"]) {
-            var obj = module.exports["default"], key;
-            for (key in obj) module.exports[key] = obj[key];
+
+            // 将 ES6 模块 default 导出对象的成员复制到导出对象，以便 CommonJS 方式使用。
+            // defineExports() 定义的导出项只有访问器，已导出的同名项保持不变。
+            var exports = module.exports;
+            if (exports && exports.__esModule && exports["default"]) {
+                var obj = exports["default"], key;
+                for (key in obj) {
+                    if (!(key in exports)) exports[key] = obj[key];
+                }
+            }
         }
         return module.exports;
     },
 
+    /**
+     * 定义 ES6 模块的导出项。导出项使用访问器，以便导入方总能获取最新的值。
+     * @param {object} exports 模块的导出对象。
+     * @param {{[name:string]: Function}} getters 各导出项的访问器。
+     */
+    defineExports: function (exports, getters) {
+        Object.defineProperty(exports, "__esModule", { value: true });
+        for (var key in getters) {
+            Object.defineProperty(exports, key, { enumerable: true, get: getters[key] });
+        }
+    },
+
+    /**
+     * 将指定模块的所有导出项（default 除外）重新导出。
+     * @param {object} exports 模块的导出对象。
+     * @param {object} module 要重新导出的模块的导出对象。
+     */
+    exportStar: function (exports, module) {
+        for (var key in module) {
+            if (key !== "default" && !(key in exports)) {
+                (function (key) {
+                    Object.defineProperty(exports, key, { enumerable: true, get: function () { return module[key]; } });
+                })(key);
+            }
+        }
+    },
+
+    /**
+     * 获取以 ES6 方式导入指定模块时使用的对象。CommonJS 模块的导出对象将作为 default 导出项。
+     * @param {object} module 模块的导出对象。
+     * @returns {object} 返回导入的对象。
+     */
+    interop: function (module) {
+        if (module && module.__esModule) return module;
+        var result = module !== null && (typeof module === "object" || typeof module === "function") ? Object.create(module) : {};
+        result["default"] = module;
+        return result;
+    },
+
     /**
      * 请求一个模块。
      * @param {string|string[]} url 模块的地址。如果同时请求多个模块则传递数组。
@@ -234,15 +315,173 @@ var __tpack__ = __tpack__ || {
 
     },
 
+    /**
+     * 异步载入一个模块。
+     * @param {string} url 模块的地址。
+     * @param {string} baseUrl 基地址。
+     * @returns {Promise} 返回一个确认对象，载入完成后返回模块的导出对象。
+     */
+    importModule: function (url, baseUrl) {
+        return new Promise(function (resolve, reject) {
+            __tpack__.require(url, function (exports) {
+                var id = __tpack__.resolve(baseUrl, url).toLowerCase();
+                if (__tpack__.modules.hasOwnProperty(id) || /\.css(\?|#|$)/i.test(id)) {
+                    resolve(__tpack__.interop(exports));
+                } else {
+                    reject(new Error("Cannot load module '" + url + "'"));
+                }
+            }, baseUrl);
+        });
+    },
+
     /**
      * 插入一段 CSS 代码。
      * @param {string} css 插入的 CSS 代码。
+     * @param {Module} module? 插入 CSS 的模块。模块重新执行时将替换原有的样式。
      */
-    insertStyle: function (css, basePath) {
-        var style = document.createElement('style');
-        var head = document.head || document.getElementsByTagName("head")[0] || document.documentElement;
-        head.insertBefore(style, head.firstChild);
+    insertStyle: function (css, module) {
+        var style = module && module.style;
+        if (!style) {
+            style = document.createElement('style');
+            var head = document.head || document.getElementsByTagName("head")[0] || document.documentElement;
+            head.insertBefore(style, head.firstChild);
+            if (module) module.style = style;
+        }
+
+        // 样式模块总是可以直接热替换。
+        if (module && module.hot) module.hot.accept();
+
         return style.innerHTML = css;
+    },
+
+    /**
+     * 是否启用模块热替换。
+     */
+    hot: false,
+
+    /**
+     * 创建模块的热替换接口（module.hot）。
+     * @param {Module} module 要处理的模块。
+     */
+    _createHot: function (module) {
+        var hot = module.hot = {
+
+            /**
+             * 模块被替换前通过 dispose() 回调保存的数据。
+             */
+            data: module.hotData,
+
+            /**
+             * 存储接受更新的依赖模块及其回调。
+             */
+            _accepted: {},
+
+            /**
+             * 存储模块被替换时的回调。
+             */
+            _disposers: [],
+
+            /**
+             * 接受模块自身或指定依赖模块的更新。
+             * @param {string|string[]|Function} deps? 依赖模块的地址。如果不传递则接受模块自身的更新。
+             * @param {Function} callback? 依赖模块更新后的回调。
+             */
+            accept: function (deps, callback) {
+                if (deps == null || typeof deps === "function") {
+                    hot._selfAccepted = true;
+                    return;
+                }
+                if (typeof deps === "string") deps = [deps];
+                for (var i = 0; i < deps.length; i++) {
+                    hot._accepted[__tpack__.resolve(module.url, deps[i]).toLowerCase()] = callback || true;
+                }
+            },
+
+            /**
+             * 添加模块被替换时的回调。
+             * @param {Function} callback 回调函数。参数为要传递给新模块的 data 对象。
+             */
+            dispose: function (callback) {
+                hot._disposers.push(callback);
+            }
+
+        };
+    },
+
+    /**
+     * 应用已通过 define() 推送的更新模块。
+     * @param {string} baseUrl 更新模块地址的基地址。
+     * @returns {boolean} 如果更新已应用则返回 true；如果更新无法被接受则刷新页面并返回 false。
+     */
+    hotUpdate: function (baseUrl) {
+
+        // 取出更新的模块。
+        var updates = {}, urls = {}, pending, id, i;
+        while (pending = __tpack__._pendings.shift()) {
+            pending.url = __tpack__.resolve(baseUrl, pending.url);
+            id = pending.url.toLowerCase();
+            updates[id] = pending.define;
+            urls[id] = pending.url;
+        }
+
+        // 更新沿依赖关系向上冒泡，直到被模块自身或父模块接受。
+        var outdated = [], accepted = [];
+        for (id in updates) {
+            var queue = [id];
+            while (queue.length) {
+                var current = queue.shift();
+                var module = __tpack__.modules[current];
+                if (!module || !module.hasOwnProperty("exports") || outdated.indexOf(current) >= 0) continue;
+                outdated.push(current);
+                if (module.hot && module.hot._selfAccepted) continue;
+                if (!module.parents || !module.parents.length) {
+                    location.reload();
+                    return false;
+                }
+                for (i = 0; i < module.parents.length; i++) {
+                    var parent = __tpack__.modules[module.parents[i]];
+                    var callback = parent && parent.hot && parent.hot._accepted[current];
+                    if (callback) {
+                        accepted.push({ id: current, callback: callback });
+                    } else {
+                        queue.push(module.parents[i]);
+                    }
+                }
+            }
+        }
+
+        // 释放过期的模块。
+        for (i = 0; i < outdated.length; i++) {
+            var module = __tpack__.modules[outdated[i]];
+            var data = {};
+            if (module.hot) {
+                for (var j = 0; j < module.hot._disposers.length; j++) {
+                    module.hot._disposers[j](data);
+                }
+            }
+            module.hotData = data;
+            delete module.exports;
+        }
+
+        // 替换模块内容。
+        for (id in updates) {
+            if (__tpack__.modules[id]) {
+                __tpack__.modules[id].define = updates[id];
+            } else {
+                __tpack__.modules[id] = { url: urls[id], define: updates[id] };
+            }
+        }
+
+        // 重新执行接受更新的模块。
+        for (i = 0; i < outdated.length; i++) {
+            var module = __tpack__.modules[outdated[i]];
+            if (module.hot && module.hot._selfAccepted) __tpack__.get(outdated[i]);
+        }
+        for (i = 0; i < accepted.length; i++) {
+            __tpack__.get(accepted[i].id);
+            if (typeof accepted[i].callback === "function") accepted[i].callback();
+        }
+        return true;
     }
 
 };
\ No newline at end of file
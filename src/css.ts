@@ -23,7 +23,7 @@ export class CssModule extends BuildModule {
      * 当被子类重写时，负责解析当前模块。
      */
     protected parse() {
-        this.content.replace(/\/\*([\s\S]*?)(?:\*\/|$)|((?:@import\s+url|\burl)\s*\(\s*)("(?:[^\\"\n\f]|\\[\s\S])*"|'(?:[^\\'\n\r\f]|\\[\s\S])*'|[^\)\r\n]*)(\s*\)\s*;?)|(\bsrc\s*=\s*)("(?:[^\\"\n\f]|\\[\s\S])*"|'(?:[^\\'\n\r\f]|\\[\s\S])*'|[^\)\r\n\},\s]*)/g, (source: string, comment: string, urlPrefix: string, urlArg: string, urlPostfix: string, srcPrefix: string, srcArg: string, sourceIndex: number) => {
+        this.match("parse", /\/\*([\s\S]*?)(?:\*\/|$)|((?:@import\s+url|\burl)\s*\(\s*)("(?:[^\\"\n\f]|\\[\s\S])*"|'(?:[^\\'\n\r\f]|\\[\s\S])*'|[^\)\r\n]*)(\s*\)\s*;?)|(\bsrc\s*=\s*)("(?:[^\\"\n\f]|\\[\s\S])*"|'(?:[^\\'\n\r\f]|\\[\s\S])*'|[^\)\r\n\},\s]*)/g, (source: string, comment: string, urlPrefix: string, urlArg: string, urlPostfix: string, srcPrefix: string, srcArg: string, sourceIndex: number) => {
 
             // /* ... */
             if (comment) {
@@ -0,0 +1,190 @@
+﻿/**
+ * @file 模块依赖图。
+ */
+import * as digo from "digo";
+import { BuildModule, ModuleDependency, ModuleType, getSourceLocation } from "./module";
+
+/**
+ * 表示一个模块依赖图。
+ */
+export interface ModuleGraph {
+
+    /**
+     * 图中的所有模块。
+     */
+    modules: ModuleGraphNode[];
+
+    /**
+     * 图中的所有依赖关系。
+     */
+    edges: ModuleGraphEdge[];
+
+}
+
+/**
+ * 表示依赖图中的一个模块。
+ */
+export interface ModuleGraphNode {
+
+    /**
+     * 模块在依赖图中的编号。
+     */
+    id: number;
+
+    /**
+     * 模块的源地址。
+     */
+    path: string;
+
+    /**
+     * 模块的类型。
+     */
+    type: string;
+
+    /**
+     * 是否是入口模块。
+     */
+    entry: boolean;
+
+}
+
+/**
+ * 表示依赖图中的一个依赖关系。
+ */
+export interface ModuleGraphEdge {
+
+    /**
+     * 源模块的编号。
+     */
+    from: number;
+
+    /**
+     * 目标模块的编号。
+     */
+    to: number;
+
+    /**
+     * 依赖关系的类型。
+     */
+    type: ModuleDependency["type"];
+
+    /**
+     * 依赖的来源名。如 "#include"、"require"、"@import"、"src"、"href"、"inline"。
+     */
+    name: string;
+
+    /**
+     * 依赖在源文件的行号（从 1 开始）。如果依赖来自配置则为 null。
+     */
+    line: number;
+
+    /**
+     * 依赖在源文件的列号（从 1 开始）。如果依赖来自配置则为 null。
+     */
+    column: number;
+
+}
+
+/**
+ * 创建指定入口模块的依赖图。
+ * @param entries 所有入口模块。
+ * @returns 返回依赖图对象。
+ */
+export function createModuleGraph(entries: BuildModule[]) {
+    const result: ModuleGraph = { modules: [], edges: [] };
+    const modules: BuildModule[] = [];
+    const addModule = (module: BuildModule) => {
+        let index = modules.indexOf(module);
+        if (index < 0) {
+            index = modules.push(module) - 1;
+            result.modules.push({
+                id: index,
+                path: module.path,
+                type: ModuleType[module.type],
+                entry: entries.indexOf(module) >= 0
+            });
+        }
+        return index;
+    };
+
+    for (const entry of entries) {
+        addModule(entry);
+    }
+    for (let i = 0; i < modules.length; i++) {
+        const module = modules[i];
+        if (!module.dependencies) continue;
+        for (const dependency of module.dependencies) {
+            const location = getSourceLocation(module, dependency.sourceIndex);
+            result.edges.push({
+                from: i,
+                to: addModule(dependency.module),
+                type: dependency.type,
+                name: dependency.name,
+                line: location && location.line + 1,
+                column: location && location.column + 1
+            });
+        }
+    }
+    return result;
+}
+
+/**
+ * 将依赖图转为 Graphviz DOT 格式。
+ * @param graph 要转换的依赖图。
+ * @returns 返回 DOT 源码。
+ */
+export function formatModuleGraph(graph: ModuleGraph) {
+    let result = "digraph modules {\n\tnode [shape=box];\n";
+    for (const node of graph.modules) {
+        result += `\t${node.id} [label=${JSON.stringify(digo.getDisplayName(node.path))}${node.entry ? ", style=bold" : ""}];\n`;
+    }
+    for (const edge of graph.edges) {
+        const label = edge.line != null ? `${edge.name} (${edge.line}:${edge.column})` : edge.name;
+        result += `\t${edge.from} -> ${edge.to} [label=${JSON.stringify(label)}${edge.type === "external" ? ", style=dashed" : edge.type === "ref" ? ", style=dotted" : ""}];\n`;
+    }
+    return result + "}\n";
+}
+
+/**
+ * 查找入口模块到指定模块的最短依赖链。
+ * @param entry 入口模块。
+ * @param path 要查找的模块的源地址。
+ * @returns 返回依次经过的依赖关系及所在模块。如果入口模块不会包含指定模块则返回 null。
+ * @remark 只有依赖（如 require、@import）和包含（#include）的模块会写入入口模块，引用（如 src、href）和排除（#external）的模块不参与查找。
+ */
+export function findDependencyChain(entry: BuildModule, path: string) {
+    const visited = [entry];
+    const parents: { owner: BuildModule, dependency: ModuleDependency }[] = [null];
+    for (let i = 0; i < visited.length; i++) {
+        if (visited[i].path === path) {
+            const result: { owner: BuildModule, dependency: ModuleDependency }[] = [];
+            for (let j = i; parents[j]; j = visited.indexOf(parents[j].owner)) {
+                result.unshift(parents[j]);
+            }
+            return result;
+        }
+        const dependencies = visited[i].dependencies;
+        if (!dependencies) continue;
+        for (const dependency of dependencies) {
+            if (dependency.type !== "require" && dependency.type !== "include" || visited.indexOf(dependency.module) >= 0) continue;
+            visited.push(dependency.module);
+            parents.push({ owner: visited[i], dependency });
+        }
+    }
+    return null;
+}
+
+/**
+ * 格式化依赖链。
+ * @param entry 入口模块。
+ * @param chain 由 findDependencyChain() 返回的依赖链。
+ * @returns 返回每行一个模块的文本。
+ */
+export function formatDependencyChain(entry: BuildModule, chain: { owner: BuildModule, dependency: ModuleDependency }[]) {
+    let result = digo.getDisplayName(entry.path);
+    for (const item of chain) {
+        const location = getSourceLocation(item.owner, item.dependency.sourceIndex);
+        result += `\n  -> ${digo.getDisplayName(item.dependency.module.path)} (${item.dependency.name}${location ? ` at ${digo.getDisplayName(item.owner.path)}(${location.line + 1},${location.column + 1})` : ""})`;
+    }
+    return result;
+}
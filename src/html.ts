@@ -2,7 +2,8 @@
  * @file 解析 HTML 模块。
  */
 import {BuildFile, Writer} from "tpack/src/buildFile";
-import {BuildModule, ModuleOptions, getModule, ModuleType, ModuleTarget, UrlUsage, encodeString, decodeString} from "./module";
+import {BuildModule, ModuleOptions, getModule, createInlineSourceMap, ModuleType, ModuleTarget, UrlUsage, encodeString, decodeString} from "./module";
+import {liveReloadClientUrl} from "./server";
 
 /**
  * 表示一个 HTML 模块。
@@ -46,7 +47,7 @@ export class HtmlModule extends BuildModule {
      * 负责解析当前模块。
      */
     protected parse() {
-        this.content.replace(/<!--([\s\S]*?)(?:-->|$)|<(img|link|object|embed|audio|video|source|a|base|form|input|button)\b(?:'[^']*'|"[^"]*"|[^>])*>|(<style\b(?:'[^']*'|"[^"]*"|[^>])*>)([\s\S]*?)(<\/style(?:'[^']*'|"[^"]*"|[^>])*>|$)|(<script\b(?:'[^']*'|"[^"]*"|[^>])*>)([\s\S]*?)(<\/script(?:'[^']*'|"[^"]*"|[^>])*>|$)|<%([\s\S*]*?)(?:%>|$)|<\?([\s\S*]*?)(?:\?|$)>|<!([\s\S*]*?)(?:!|$)>|<#([\s\S*]*?)(?:#|$)>/ig, (source: string, comment: string, tag: string, styleStart: string, style: string, styleEnd: string, scriptStart: string, script: string, scriptEnd: string, aspTpl: string, phpTpl: string, cdata: string, sharpTpl: string, sourceIndex: number) => {
+        this.match("parse", /<!--([\s\S]*?)(?:-->|$)|<(img|link|object|embed|audio|video|source|a|base|form|input|button)\b(?:'[^']*'|"[^"]*"|[^>])*>|(<style\b(?:'[^']*'|"[^"]*"|[^>])*>)([\s\S]*?)(<\/style(?:'[^']*'|"[^"]*"|[^>])*>|$)|(<script\b(?:'[^']*'|"[^"]*"|[^>])*>)([\s\S]*?)(<\/script(?:'[^']*'|"[^"]*"|[^>])*>|$)|<%([\s\S*]*?)(?:%>|$)|<\?([\s\S*]*?)(?:\?|$)>|<!([\s\S*]*?)(?:!|$)>|<#([\s\S*]*?)(?:#|$)>/ig, (source: string, comment: string, tag: string, styleStart: string, style: string, styleEnd: string, scriptStart: string, script: string, scriptEnd: string, aspTpl: string, phpTpl: string, cdata: string, sharpTpl: string, sourceIndex: number) => {
 
             // <!-- -->
             if (comment != null) {
@@ -75,6 +76,14 @@ export class HtmlModule extends BuildModule {
             return "";
         });
 
+        // 注入实时刷新客户端。
+        let liveReload = this.options.html && this.options.html.liveReload;
+        if (liveReload) {
+            let body = /<\/body\s*>/i.exec(this.content);
+            let index = body ? body.index : this.content.length;
+            this.replace(index, index, `<script src="${liveReload === true ? liveReloadClientUrl : liveReload}"></script>`);
+        }
+
     }
 
     /**
@@ -133,12 +142,15 @@ export class HtmlModule extends BuildModule {
      * @param ext 内联扩展名。
      */
     protected parseInline(source: string, sourceIndex: number, openTag: string, innerHTML: string, closeTag: string, ext: string) {
-        if (hasDynamicTag(innerHTML)) return;
+        if (hasDynamicTag(innerHTML) || this.isHidden(sourceIndex)) return;
 
         // 创建虚拟文件。
         let builder = this.file.builder;
         var related = builder.createFile(this.file.name + "#inline" + (this._inlineCounter = (this._inlineCounter + 1) || 1) + ext, innerHTML);
-        
+
+        // 内联文件映射回当前文件，之后的编译器生成的源映射会合并到此源映射。
+        related.sourceMapData = createInlineSourceMap(this, sourceIndex + openTag.length, innerHTML);
+
         builder.processFile(related);
         
         let module = getModule(related, this.options);
@@ -318,6 +330,16 @@ export interface HtmlOptions extends ModuleOptions {
 
         }
 
+        /**
+         * 是否在页面中注入实时刷新客户端脚本。启动开发服务器时默认为 true。
+         * @return 可能值有：
+         * - true：注入开发服务器提供的客户端脚本。
+         * - false: 不注入。
+         * - 字符串: 注入指定地址的客户端脚本。
+         * @default false
+         */
+        liveReload?: boolean | string;
+
     }
 
 }
@@ -3,19 +3,35 @@
  * @author xuld <xuld@vip.qq.com>
  */
 import * as digo from "digo";
+import { BuildFile } from "tpack/src/buildFile";
+import { ModuleOptions } from "./module";
 import { Packer } from "./packer";
 
 export const name = "WebPack";
 
-export function init(options: (list: digo.FileList, packer: Packer) => void, result: digo.FileList) {
-    const packer = new Packer();
+export function init(options: ModuleOptions | ((list: digo.FileList, packer: Packer) => void), result: digo.FileList) {
+    let packer: Packer;
+    if (typeof options === "function") {
+        packer = new Packer();
+        packer.root = result.root;
+        packer.list = new digo.FileList();
+        options(packer.list, packer);
+    } else {
+        packer = new Packer(options);
+        packer.root = result.root;
+    }
     result.prev.on("end", () => {
+        if (packer.list) packer.list.end();
         packer.resolve();
     });
     return packer;
 }
 
-export function add(file: digo.File, options: Packer, done: () => void) {
+export function add(file: BuildFile, options: Packer, done: () => void) {
+    if (options.list) {
+        options.dispatch(file, done);
+        return;
+    }
     const module = options.createModule(file);
     options.buildModule(module, done);
 }
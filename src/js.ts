@@ -2,8 +2,11 @@
  * @file 解析 JS 模块。
  */
 import * as FS from "fs";
+import * as Path from "path";
 import {BuildFile, Writer} from "tpack/src/buildFile";
-import {BuildModule, ModuleOptions, ModuleType, ModuleTarget, UrlUsage, encodeString, decodeString} from "./module";
+import {BuildModule, ModuleOptions, ModuleType, ModuleTarget, UrlUsage, addDependent, encodeString, decodeString} from "./module";
+import {Token, TokenType, tokenize} from "./tokenizer";
+import {evaluateMacro} from "./macro";
 
 /**
  * 表示一个 JS 模块。
@@ -34,273 +37,3092 @@ export class JsModule extends BuildModule {
      * 解析当前模块。
      */
     protected parse() {
-        this.content.replace(/'((?:[^\\'\n\r\f]|\\[\s\S])*)'|"((?:[^\\"\n\f]|\\[\s\S])*)"|\/((?:[^\\\/\n\f]|\\[\s\S])+)\/|\/\/([^\n\f]+)|\/\*([\s\S]*?)(?:\*\/|$)|((?:^|[^\.])require\s*\(\s*)('(?:[^\\'\n\r\f]|\\[\s\S])*'|"(?:[^\\"\n\f]|\\[\s\S])*")\s*\)\s*;?|(^|[^\.])(setImmediate|clearImmediate|process|module|exports|require|global|Buffer|__dirname|__filename)\b/g, (source: string, singleString: string, doubleString: string, regExp: string, singleComment: string, multiComment: string, requirePrefix: string, require: string, keywordPrefix: string, keyword: string, sourceIndex: number) => {
 
-            // '...', "..."
-            if (singleString != null || doubleString != null || regExp != null) return "";
+        // 以库方式导出时需要加载器执行入口模块。
+        let requireOptions = this.options.js && this.options.js.require;
+        if (requireOptions && requireOptions.library != null) {
+            if (getLibrary(this.options) != null) {
+                this.setDefaultTarget(ModuleTarget.tpack);
+            } else {
+                this.report("(options: js.require.library)", -1, "Invalid library: '{library}' for libraryTarget '{libraryTarget}'. The bundle will be written without the library wrapper.", { library: requireOptions.library, libraryTarget: requireOptions.libraryTarget || "var" }, true);
+            }
+        }
+
+        // 按标记解析，以便正确跳过字符串、模板字符串、正则表达式和 JSX 文本。
+        let content = this.content;
+        let tokens = this._tokens = this.scan("tokens", () => tokenize(content));
+        let constantFolding = !this.options.js || this.options.js.constantFolding !== false;
+        let prev: Token = null;
+        for (let i = 0; i < tokens.length; i++) {
+            let token = tokens[i];
+            switch (token.type) {
+
+                // //...
+                case TokenType.singleComment:
+                    this.parseComment(content.substring(token.start, token.end), token.start, content.substring(token.start + 2, token.end), token.start + 2);
+                    continue;
+
+                // /*...*/
+                case TokenType.multiComment:
+                    let commentEnd = token.end - 2 >= token.start + 2 && content.startsWith("*/", token.end - 2) ? token.end - 2 : token.end;
+                    this.parseComment(content.substring(token.start, token.end), token.start, content.substring(token.start + 2, commentEnd), token.start + 2);
+                    continue;
 
-            // //..., /*...*/
-            if (singleComment != null || multiComment != null) {
-                this.parseComment(source, sourceIndex, singleComment || multiComment, sourceIndex + 2);
-                return "";
             }
 
-            // require('...')
-            if (require != null) {
-                this.parseRequire(source, sourceIndex, require, sourceIndex + requirePrefix.length);
-                return "";
+            // 跳过已删除的代码。
+            if (this.isHidden(token.start)) continue;
+
+            // 删除常量条件中不会执行的部分。
+            if (constantFolding) {
+                if (token.type === TokenType.identifier && content.substring(token.start, token.end) === "if" && (!prev || !isPunctuator(content, prev, "."))) {
+                    this.parseIf(tokens, i, prev);
+                } else {
+                    this.parseLogical(tokens, i, prev);
+                }
+                if (this.isHidden(token.start)) continue;
             }
 
-            // require, exports, module, process, global, Buffer, setImmediate, clearImmediate, __dirname, __filename
-            if (keyword != null) {
-                this.parseKeyword(keyword, sourceIndex + keywordPrefix.length);
-                return "";
+            // import, export, require, define, 关键字
+            if (token.type === TokenType.identifier && (!prev || !isPunctuator(content, prev, "."))) {
+                let globalEnd = this.parseGlobal(tokens, i, prev);
+                i = globalEnd >= 0 ? globalEnd : this.parseIdentifier(tokens, i, prev);
             }
+            if (tokens[i].type !== TokenType.singleComment && tokens[i].type !== TokenType.multiComment) {
+                prev = tokens[i];
+            }
+        }
 
-            return "";
-        });
+        // 生成 ES6 模块的导出项并更新导入项的引用。
+        if (this._imports || this._exports) {
+            this.resolveEsModule();
+        }
+        this._tokens = this._scopes = this._methods = null;
 
     }
 
     /**
-     * 解析 require(url)。
-     * @param source 相关的代码片段。
-     * @param sourceIndex *source* 在源文件的起始位置。
-     * @param url 相关的地址。
-     * @param urlIndex *url* 在源文件的起始位置。
+     * 存储正在解析的源码的标记列表。
      */
-    parseRequire(source: string, sourceIndex: number, url: string, urlIndex: number) {
-        if (this.options.js && this.options.js.require === false) return;
-        this.setDefaultTarget(ModuleTarget.tpack);
-        let obj = this.resolveUrl(url, urlIndex, decodeString(url), UrlUsage.require);
-        if (!obj) return;
-
-        // 导出 CSS 后删除 require 调用。
-        if (this.extractCss && obj.module.type === ModuleType.css) {
-            this.extractCss.require(url, urlIndex, obj.module, "require");
-            this.replace(sourceIndex, sourceIndex + source.length, "");
-            return;
-        }
+    private _tokens: Token[];
 
-        this.require(url, urlIndex, obj.module, "require");
-        this.replace(urlIndex, urlIndex + url.length, encodeString(prependDot(this.file.relative(obj.module.file) + obj.query + obj.hash), url));
-    }
+    /**
+     * 存储正在解析的源码中每个标记所在的作用域。
+     */
+    private _scopes: Scope[];
 
     /**
-     * 存储已添加的符号。
+     * 存储正在解析的源码中类和对象字面量的方法名的标记索引。
      */
-    private _parsedKeywords: string[];
+    private _methods: boolean[];
 
     /**
-     * 解析一个文件内的符号。
-     * @param source 要处理的内容。
-     * @param index *source* 在源文件的起始位置。
-     * @param keyword 要解析的符号。
+     * 获取正在解析的源码中每个标记所在的作用域。
      */
-    parseKeyword(source: string, index: number) {
+    private getScopes() {
+        return this._scopes || (this._scopes = analyzeScopes(this.content, this._tokens, this._methods = []));
+    }
 
-        let options = this.options.js && this.options.js.keyword;
-        if (options === false || options && options[source] === false) return;
+    /**
+     * 解析一个标识符。
+     * @param tokens 所有标记。
+     * @param index 标识符在标记列表的索引。
+     * @param prev 上一个标记（注释除外）。
+     * @returns 返回已解析的最后一个标记的索引。
+     */
+    private parseIdentifier(tokens: Token[], index: number, prev: Token) {
+        let content = this.content;
+        let token = tokens[index];
+        let name = content.substring(token.start, token.end);
+        switch (name) {
 
-        this._parsedKeywords = this._parsedKeywords || [];
-        if (this._parsedKeywords.indexOf(source) >= 0) return;
-        this._parsedKeywords.push(source);
+            // import ... from '...', import('...')
+            case "import":
+                let open = nextToken(tokens, index);
+                if (open >= 0 && isPunctuator(content, tokens[open], "(")) {
+                    let url = nextToken(tokens, open);
+                    let close = nextToken(tokens, url);
+                    if (close >= 0 && tokens[url].type === TokenType.string && isPunctuator(content, tokens[close], ")")) {
+                        this.parseDynamicImport(content.substring(token.start, tokens[close].end), token.start, content.substring(tokens[url].start, tokens[url].end), tokens[url].start);
+                        return close;
+                    }
+                    return index;
+                }
 
-        let requireModule: string;
-        let prepend: string;
+            // export ...
+            case "export":
+                if (prev && !token.newLine && !isPunctuator(content, prev, ";") && !isPunctuator(content, prev, "}")) return index;
+                let statement = (name === "import" ? importStatement : exportStatement);
+                statement.lastIndex = token.start;
+                let match = statement.exec(content);
+                if (!match) return index;
+                if (name === "import") {
+                    this.parseImport(match[0], token.start);
+                } else {
+                    this.parseExport(match[0], token.start);
+                }
+                return lastTokenBefore(tokens, index, token.start + match[0].length);
 
-        switch (source) {
+            // require('...'), require('...', callback), require([...], callback)
             case "require":
-            case "exports":
-            case "module":
-                this.setDefaultTarget(ModuleTarget.tpack);
-                break;
-            case "global":
-                prepend = 'var global = (function(){return this;})();\n';
-                break;
-            case "process":
-                requireModule = "process";
-                prepend = 'var Buffer = require(~);\n';
+                let requireOpen = nextToken(tokens, index);
+                if (requireOpen >= 0 && isPunctuator(content, tokens[requireOpen], "(")) {
+                    let arg = nextToken(tokens, requireOpen);
+                    let argEnd = arg >= 0 && tokens[arg].type === TokenType.string ? arg : arg >= 0 && isPunctuator(content, tokens[arg], "[") ? stringArrayEnd(content, tokens, arg) : -1;
+                    let postfix = nextToken(tokens, argEnd);
+                    if (postfix >= 0) {
+                        let urls = content.substring(tokens[arg].start, tokens[argEnd].end);
+                        if (isPunctuator(content, tokens[postfix], ",") || arg !== argEnd && isPunctuator(content, tokens[postfix], ")")) {
+                            this.parseAsyncRequire(content.substring(token.start, tokens[postfix].end), token.start, urls, tokens[arg].start);
+                            return postfix;
+                        }
+                        if (isPunctuator(content, tokens[postfix], ")")) {
+                            let semicolon = nextToken(tokens, postfix);
+                            if (semicolon >= 0 && isPunctuator(content, tokens[semicolon], ";")) postfix = semicolon;
+                            this.parseRequire(content.substring(token.start, tokens[postfix].end), token.start, urls, tokens[arg].start);
+                            return postfix;
+                        }
+                    }
+                }
                 break;
-            case "Buffer":
-                requireModule = "buffer";
-                prepend = 'var Buffer = require(~);\n';
-                break;
-            case "setImmediate":
-            case "clearImmediate":
-                requireModule = "timers";
-                prepend = `var ${source} = require(~).${source};\n`;
-                break;
-            case "__dirname":
-                prepend = `var __dirname = ${JSON.stringify(this.file.srcDir)};\n`;
-            case "__filename":
-                prepend = `var __filename = ${JSON.stringify(this.file.srcPath)};\n`;
-                break;
-        }
 
-        // 如果需要额外请求模块。
-        if (requireModule && (!this.options.resolve || this.options.resolve.native !== false)) {
-            this.setDefaultTarget(ModuleTarget.tpack);
-            if (this.target !== ModuleTarget.tpack) return;
-            let module = this.resolveRequire(source, index, requireModule, "auto require");
-            if (!module) return;
+            // define([...], factory), define("name", [...], factory), define(function (require, exports, module) { ... })
+            case "define":
+                let defineOpen = nextToken(tokens, index);
+                if (defineOpen < 0 || !isPunctuator(content, tokens[defineOpen], "(")) return index;
+                let deps = nextToken(tokens, defineOpen);
+                let defineName: number = -1;
+                if (deps >= 0 && tokens[deps].type === TokenType.string) {
+                    let comma = nextToken(tokens, deps);
+                    if (comma < 0 || !isPunctuator(content, tokens[comma], ",")) return index;
+                    defineName = deps;
+                    deps = nextToken(tokens, comma);
+                }
+                if (deps < 0) return index;
+                let prefix = content.substring(token.start, tokens[defineName >= 0 ? defineName : deps].start);
+                let nameValue = defineName >= 0 ? content.substring(tokens[defineName].start, tokens[defineName].end) : undefined;
+                if (isPunctuator(content, tokens[deps], "[")) {
+                    let depsEnd = stringArrayEnd(content, tokens, deps);
+                    if (depsEnd < 0) return index;
+                    this.parseDefine(content.substring(token.start, tokens[depsEnd].end), token.start, prefix, nameValue, content.substring(tokens[deps].start, tokens[depsEnd].end));
+                    return depsEnd;
+                }
+                if (tokens[deps].type === TokenType.identifier && content.substring(tokens[deps].start, tokens[deps].end) === "function") {
+                    this.parseDefine(content.substring(token.start, tokens[deps].start), token.start, prefix, nameValue, "");
+                    return deps - 1;
+                }
+                return index;
 
-            prepend = prepend.replace("~", JSON.stringify(prependDot(this.file.relative(module.path))));
         }
 
-        // 追加文本内容。
-        if (prepend) {
-            this.replace(0, 0, prepend);
+        // require, exports, module, process, global, Buffer, setImmediate, clearImmediate, __dirname, __filename
+        if (/^(?:setImmediate|clearImmediate|process|module|exports|require|global|Buffer|__dirname|__filename)$/.test(name)) {
+            this.parseKeyword(name, token.start);
         }
+        return index;
+    }
 
+    /**
+     * 解析一个在编译时替换为常量的全局表达式（如 `process.env.NODE_ENV`）。
+     * @param tokens 所有标记。
+     * @param index 表达式首个标识符在标记列表的索引。
+     * @param prev 上一个标记（注释除外）。
+     * @returns 返回已替换的最后一个标记的索引。如果未替换则返回 -1。
+     */
+    private parseGlobal(tokens: Token[], index: number, prev: Token) {
+        let global = this.getGlobal(tokens, index, prev);
+        if (!global) return -1;
+        this.replace(tokens[index].start, tokens[global.end].end, encodeLiteral(global.value));
+        return global.end;
     }
 
     /**
-     * 将当前模块及依赖项写入的指定的输出器。
-     * @param writer 目标输出器。
+     * 存储所有可替换的全局表达式的首个名称。
      */
-    write(writer: Writer) {
-        if (this.target === ModuleTarget.tpack && (!this.externals || !this.externals.length)) {
-            writer.write(getLoader());
+    private _globalNames: { [name: string]: boolean };
+
+    /**
+     * 获取一个在编译时替换为常量的全局表达式的值。
+     * @param tokens 所有标记。
+     * @param index 表达式首个标识符在标记列表的索引。
+     * @param prev 上一个标记（注释除外）。
+     * @returns 返回表达式最后一个标记的索引和表达式的值。如果不是可替换的全局表达式则返回 null。
+     */
+    private getGlobal(tokens: Token[], index: number, prev: Token) {
+        let globals = this.options.js && this.options.js.globals;
+        if (!globals) return null;
+        let content = this.content;
+        let token = tokens[index];
+
+        // 快速排除不是全局表达式开头的标识符。
+        if (!this._globalNames) {
+            this._globalNames = { __proto__: null };
+            for (const expression of Array.isArray(globals) ? globals : Object.keys(globals)) {
+                this._globalNames[expression.split(".", 1)[0]] = true;
+            }
+        }
+        if (!this._globalNames[content.substring(token.start, token.end)]) return null;
+
+        // 当前模块内声明的同名变量（如局部变量和参数）不替换。
+        if (resolveScope(this.getScopes()[index], content.substring(token.start, token.end))) return null;
+
+        // 声明的变量名和自增自减的表达式不替换。
+        if (prev && (prev.type === TokenType.identifier && /^(?:var|let|const|function|class)$/.test(content.substring(prev.start, prev.end)) || isPunctuator(content, prev, "++") || isPunctuator(content, prev, "--"))) return null;
+
+        // 读取成员表达式 a.b.c。
+        let names = [content.substring(token.start, token.end)];
+        let ends = [index];
+        for (let dot = nextToken(tokens, index); dot >= 0 && isPunctuator(content, tokens[dot], "."); ) {
+            let name = nextToken(tokens, dot);
+            if (name < 0 || tokens[name].type !== TokenType.identifier) break;
+            names.push(content.substring(tokens[name].start, tokens[name].end));
+            ends.push(name);
+            dot = nextToken(tokens, name);
+        }
+
+        // 优先替换最长的表达式。
+        for (let i = ends.length - 1; i >= 0; i--) {
+            let expression = names.slice(0, i + 1).join(".");
+            let value: any;
+            if (Array.isArray(globals)) {
+                if (globals.indexOf(expression) < 0 || !this.isDefined(expression, token.start)) continue;
+                value = this.getDefined(expression, token.start);
+            } else {
+                if (!globals.hasOwnProperty(expression)) continue;
+                value = globals[expression];
+                if (typeof value === "function") value = value.call(globals, this.file);
+            }
+
+            // 被赋值的表达式和属性名不替换。
+            if (/^\s*(?:(?:[-+*\/%&|^]|\*\*|<<|>>>?|&&|\|\||\?\?)?=(?![=>])|\+\+|--)/.test(content.substr(tokens[ends[i]].end, 16))) return null;
+            if (i === 0 && (isPropertyName(content, token.start, token.end - token.start) || isShorthandProperty(content, token.start, token.end - token.start))) return null;
+
+            return { end: ends[i], value };
         }
-        super.write(writer);
+        return null;
     }
 
+    // #region 常量折叠
+
     /**
-     * 写入一个模块。
-     * @param writer 目标输出器。
-     * @param module 要写入的模块。
+     * 解析 if 语句。如果条件是常量，则删除不会执行的分支。
+     * @param tokens 所有标记。
+     * @param index `if` 在标记列表的索引。
+     * @param prev 上一个标记（注释除外）。
      */
-    protected writeModule(writer: Writer, module: BuildModule) {
+    private parseIf(tokens: Token[], index: number, prev: Token) {
+        let content = this.content;
+        let open = nextToken(tokens, index);
+        if (open < 0 || !isPunctuator(content, tokens[open], "(")) return;
+        let close = matchingToken(content, tokens, open);
+        if (close < 0) return;
+        let value = this.evaluateCondition(tokens, open + 1, close);
+        if (value == null) return;
 
-        if (this.target !== ModuleTarget.tpack) {
-            super.writeModule(writer, module);
+        // 类和对象字面量中名为 if 的方法不是 if 语句。
+        this.getScopes();
+        if (this._methods[index]) return;
+
+        let consequent = nextToken(tokens, close);
+        let consequentEnd = statementEnd(content, tokens, consequent);
+        if (consequentEnd < 0) return;
+        let elseToken = nextToken(tokens, consequentEnd);
+        let alternate = -1;
+        let alternateEnd = -1;
+        if (elseToken >= 0 && tokens[elseToken].type === TokenType.identifier && content.substring(tokens[elseToken].start, tokens[elseToken].end) === "else") {
+            alternate = nextToken(tokens, elseToken);
+            alternateEnd = statementEnd(content, tokens, alternate);
+            if (alternateEnd < 0) return;
+        }
+
+        // 删除的分支内 var 声明的变量会被提升，需要保留声明。函数声明的提升方式与是否是严格模式有关，不删除。
+        let names: string[] = [];
+        if (!(value ? alternate < 0 || this.collectHoistedNames(tokens, index, alternate, alternateEnd, names) : this.collectHoistedNames(tokens, index, consequent, consequentEnd, names))) return;
+        if (names.length) {
+
+            // 作为其它语句（如 else）的子语句时无法插入声明。
+            if (prev && !isPunctuator(content, prev, ";") && !isPunctuator(content, prev, "{") && !isPunctuator(content, prev, "}")) return;
+            this.replace(tokens[index].start, tokens[index].start, `var ${names.filter((name, i) => names.indexOf(name) === i).join(", ")}; `);
+        }
+
+        // if (true) A else B -> A
+        if (value) {
+            this.hide(tokens[index].start, tokens[consequent].start);
+            if (alternate >= 0) this.hide(tokens[consequentEnd].end, tokens[alternateEnd].end);
             return;
         }
 
-        writer.write('\n\n__tpack__.define(');
+        // if (false) A else B -> B
+        if (alternate >= 0) {
+            this.hide(tokens[index].start, tokens[alternate].start);
+            return;
+        }
 
-        if (module !== writer.file.webModule) {
-            writer.write(JSON.stringify(prependDot(this.file.relative(module.file))) + ", ");
+        // if (false) A -> 空，作为其它语句（如 else）的子语句时保留空语句。
+        this.hide(tokens[index].start, tokens[consequentEnd].end);
+        if (prev && !isPunctuator(content, prev, ";") && !isPunctuator(content, prev, "{") && !isPunctuator(content, prev, "}")) {
+            this.replace(tokens[consequentEnd].end, tokens[consequentEnd].end, ";");
         }
+    }
 
-        writer.indentString = this.options.output && this.options.output.sourcePrefix != null ? this.options.output.sourcePrefix : "\t";
-        writer.write('function(require, exports, module) {\n');
-        switch (module.type) {
-            case ModuleType.js:
-                super.writeModule(writer, module);
+    /**
+     * 收集将被删除的代码中 var 声明的变量名。这些变量会被提升到所在函数，删除后仍需保留声明。
+     * @param tokens 所有标记。
+     * @param index `if` 在标记列表的索引。
+     * @param start 删除的首个标记在标记列表的索引。
+     * @param end 删除的最后一个标记在标记列表的索引（包括）。
+     * @param names 用于存放变量名的数组。
+     * @returns 如果删除的代码包含函数声明则返回 false。
+     */
+    private collectHoistedNames(tokens: Token[], index: number, start: number, end: number, names: string[]) {
+        let content = this.content;
+        let scopes = this.getScopes();
+        let scope = getFunctionScope(scopes[index]);
+        let prev: Token = null;
+        let prevPrev: Token = null;
+        for (let i = start; i <= end; i++) {
+            let token = tokens[i];
+            if (token.type === TokenType.singleComment || token.type === TokenType.multiComment) continue;
+            if (token.type === TokenType.identifier && (!prev || !isPunctuator(content, prev, ".")) && getFunctionScope(scopes[i]) === scope) {
+                switch (content.substring(token.start, token.end)) {
+                    case "var":
+                        collectDeclaration(content, tokens, i, names);
+                        break;
+                    case "function":
+                        if (isDeclarationStart(content, prev && prev.type === TokenType.identifier && content.substring(prev.start, prev.end) === "async" ? prevPrev : prev)) return false;
+                        break;
+                }
+            }
+            prevPrev = prev;
+            prev = token;
+        }
+        return true;
+    }
+
+    /**
+     * 判断指定的标识符是否是字面量常量。
+     * @param tokens 所有标记。
+     * @param index 标识符在标记列表的索引。
+     * @returns 如果是 `true`、`false`、`null` 或未在当前模块内重新声明的 `undefined` 则返回 true。
+     */
+    private isLiteralName(tokens: Token[], index: number) {
+        let name = this.content.substring(tokens[index].start, tokens[index].end);
+        return /^(?:true|false|null)$/.test(name) || name === "undefined" && !resolveScope(this.getScopes()[index], name);
+    }
+
+    /**
+     * 解析以常量开头的逻辑表达式（如 `"production" !== "production" && ...`、`DEBUG ? ... : ...`），并删除不会执行的部分。
+     * @param tokens 所有标记。
+     * @param index 表达式首个标记在标记列表的索引。
+     * @param prev 上一个标记（注释除外）。
+     */
+    private parseLogical(tokens: Token[], index: number, prev: Token) {
+        let content = this.content;
+        let token = tokens[index];
+
+        // 快速排除不可能是常量的标记。
+        switch (token.type) {
+            case TokenType.identifier:
+                if (!this.isLiteralName(tokens, index) && !this.getGlobal(tokens, index, prev)) return;
                 break;
-            case ModuleType.css:
-                writer.write(`module.exports = __tpack__.insertStyle(${JSON.stringify(module.file.content)});`);
+            case TokenType.punctuator:
+                if (!isPunctuator(content, token, "!") && !isPunctuator(content, token, "(") && !isPunctuator(content, token, "-")) return;
                 break;
-            case ModuleType.json:
-                writer.write(`module.exports = `);
-                module.write(writer);
-                writer.write(`;`);
+            case TokenType.string:
+            case TokenType.number:
                 break;
             default:
-                writer.write(`module.exports = ${JSON.stringify(module.file.content)};`);
-                break;
+                return;
         }
 
-        writer.indentString = "";
-        writer.write(`\n});`);
+        // 查找常量之后的逻辑运算符。遇到不可能是常量的标记时停止。
+        let operator: string;
+        let last = -1;
+        let depth = 0;
+        let i = index;
+        for (; i >= 0; i = nextToken(tokens, i)) {
+            let current = tokens[i];
+            switch (current.type) {
+                case TokenType.punctuator:
+                    if (depth === 0 && (operator = getLogicalOperator(content, current))) break;
+                    switch (content.charCodeAt(current.start)) {
+                        case 40/*(*/:
+                            depth++;
+                            break;
+                        case 41/*)*/:
+                            if (--depth < 0) return;
+                            break;
+                        case 33/*!*/:
+                        case 61/*=*/:
+                        case 60/*<*/:
+                        case 62/*>*/:
+                        case 45/*-*/:
+                        case 38/*&*/:
+                        case 124/*|*/:
+                            break;
+                        default:
+                            return;
+                    }
+                    break;
+                case TokenType.identifier:
+                    if (!this.isLiteralName(tokens, i)) {
+                        let global = this.getGlobal(tokens, i, last >= 0 ? tokens[last] : prev);
+                        if (!global) return;
+                        i = global.end;
+                    }
+                    break;
+                case TokenType.string:
+                case TokenType.number:
+                    break;
+                default:
+                    return;
+            }
+            if (operator) break;
+            last = i;
+        }
+        if (i < 0 || last < 0 || operator === "??" || !isExpressionStart(content, prev, operator)) return;
+        let constant = this.evaluateConstant(tokens, index, last + 1);
+        if (!constant) return;
+        let right = nextToken(tokens, operator === "?" ? i : nextToken(tokens, i));
+        if (right < 0) return;
+
+        // A ? B : C
+        if (operator === "?") {
+            let consequentEnd = expressionEnd(content, tokens, right, 0);
+            let colon = nextToken(tokens, consequentEnd);
+            if (colon < 0 || !isPunctuator(content, tokens[colon], ":")) return;
+            let alternate = nextToken(tokens, colon);
+            let alternateEnd = expressionEnd(content, tokens, alternate, 0);
+            if (alternateEnd < 0) return;
+            if (constant.value) {
+                this.hide(token.start, tokens[right].start);
+                this.hide(tokens[consequentEnd].end, tokens[alternateEnd].end);
+            } else {
+                this.hide(token.start, tokens[alternate].start);
+            }
+            return;
+        }
+
+        // A && B, A || B
+        let rightEnd = expressionEnd(content, tokens, right, operator === "&&" ? 2 : 1);
+        if (rightEnd < 0) return;
+        if (!constant.value === (operator === "&&")) {
+            this.replace(token.start, tokens[last].end, encodeLiteral(constant.value));
+            this.hide(tokens[last].end, tokens[rightEnd].end);
+        } else {
+            this.hide(token.start, tokens[right].start);
+        }
     }
 
-}
+    /**
+     * 计算 if 条件的值。
+     * @param tokens 所有标记。
+     * @param start 条件首个标记在标记列表的索引。
+     * @param end 条件结束标记在标记列表的索引（不包括）。
+     * @returns 如果条件的值是常量则返回转为布尔值的值，否则返回 null。
+     * @remark 按 JS 的短路规则计算，如 `false && x` 是常量，而 `x && false` 因为 `x` 可能有副作用不是常量。
+     */
+    private evaluateCondition(tokens: Token[], start: number, end: number) {
+        let content = this.content;
 
-/**
- * 表示 JS 模块的配置。
- */
-export interface JsOptions extends ModuleOptions {
+        // 按 || 和 && 拆分。
+        let disjuncts: number[][][] = [[]];
+        let depth = 0;
+        let from = start;
+        for (let i = start; i <= end; i++) {
+            let operator: string;
+            if (i < end && tokens[i].type === TokenType.punctuator) {
+                switch (content.charCodeAt(tokens[i].start)) {
+                    case 40/*(*/:
+                    case 91/*[*/:
+                    case 123/*{*/:
+                        depth++;
+                        continue;
+                    case 41/*)*/:
+                    case 93/*]*/:
+                    case 125/*}*/:
+                        depth--;
+                        continue;
+                }
+                if (depth > 0 || !(operator = getLogicalOperator(content, tokens[i]))) continue;
+                if (operator !== "&&" && operator !== "||") return null;
+            } else if (i < end) {
+                continue;
+            }
+            disjuncts[disjuncts.length - 1].push([from, i]);
+            if (operator === "||") disjuncts.push([]);
+            from = i + 2;
+            i++;
+        }
+
+        for (const conjuncts of disjuncts) {
+            let value = true;
+            for (const conjunct of conjuncts) {
+                let constant = this.evaluateConstant(tokens, conjunct[0], conjunct[1]);
+                if (!constant) return null;
+                if (!constant.value) {
+                    value = false;
+                    break;
+                }
+            }
+            if (value) return true;
+        }
+        return false;
+    }
 
     /**
-     * 解析 JS 的配置。
+     * 计算只包含常量和可替换的全局表达式的表达式的值。
+     * @param tokens 所有标记。
+     * @param start 表达式首个标记在标记列表的索引。
+     * @param end 表达式结束标记在标记列表的索引（不包括）。
+     * @returns 返回包含表达式的值的对象。如果表达式不是常量则返回 null。
      */
-    js: {
+    private evaluateConstant(tokens: Token[], start: number, end: number) {
+        let content = this.content;
+        let expression = "";
+        for (let i = start; i < end; i++) {
+            let token = tokens[i];
+            if (i > start && token.start > tokens[i - 1].end) expression += " ";
+            switch (token.type) {
+                case TokenType.identifier:
+                    let global = this.getGlobal(tokens, i, i > start ? tokens[i - 1] : null);
+                    if (global) {
+                        let literal = encodeLiteral(global.value);
 
-        /**
-         * 是否解析 `require`。
-         */
-        require: {
+                        // JSON 的 \b、\f、\u 转义和 NaN、Infinity 同样无法由宏表达式正确计算。
+                        if (typeof global.value === "string" && !isMacroLiteral(literal, TokenType.string) || typeof global.value === "number" && !isFinite(global.value)) return null;
+                        expression += literal;
+                        i = global.end;
+                        continue;
+                    }
+                    if (!this.isLiteralName(tokens, i)) return null;
+                    break;
+                case TokenType.string:
+                case TokenType.number:
+                    // 宏表达式计算结果与 JS 不同的写法（如 "\x41" 和 010）不作为常量。
+                    if (!isMacroLiteral(content.substring(token.start, token.end), token.type)) return null;
+                    break;
+                case TokenType.punctuator:
+                    break;
+                default:
+                    return null;
+            }
+            expression += content.substring(token.start, token.end);
+        }
+        try {
+            return { value: evaluateMacro(expression, () => undefined, () => false) };
+        } catch (e) {
+            return null;
+        }
+    }
 
-            ///**
-            // * 默认编译的库类型。可能的值有：
-            // * - var: var Library = xxx
-            // * - this: this["Library"] = xxx
-            // * - commonjs: exports["Library"] = xxx
-            // * - commonjs2: this.exports = xxx
-            // * - amd
-            // * - umd
-            // * @default "var"
-            // */
-            //libraryTarget?: string;
+    /**
+     * 删除指定区域的代码。区域内的依赖不再解析。
+     * @param startIndex 区域在源文件的起始位置。
+     * @param endIndex 区域在源文件的结束位置。
+     */
+    private hide(startIndex: number, endIndex: number) {
+        this.beiginHiddenRegion(startIndex);
+        this.endHiddenRegion(endIndex);
+    }
 
-            ///**
-            // * 在异步加载模块时，是否追加 cross-orign 属性。
-            // * @see https://developer.mozilla.org/en/docs/Web/HTML/Element/script#attr-crossorigin
-            // */
-            //crossOriginLoading?: boolean,
+    // #endregion
 
-        },
+    /**
+     * 解析 require(url)。
+     * @param source 相关的代码片段。
+     * @param sourceIndex *source* 在源文件的起始位置。
+     * @param url 相关的地址。
+     * @param urlIndex *url* 在源文件的起始位置。
+     */
+    parseRequire(source: string, sourceIndex: number, url: string, urlIndex: number) {
+        if (this.options.js && this.options.js.require === false) return;
+        this.setDefaultTarget(ModuleTarget.tpack);
+        this._noHoist = true;
+        let obj = this.resolveUrl(url, urlIndex, decodeString(url), UrlUsage.require);
+        if (!obj) return;
 
-        /**
-         * 指示如何解析代码内关键字。
-         */
-        keyword?: {
+        // 导出 CSS 后删除 require 调用。
+        if (this.extractCss && obj.module.type === ModuleType.css) {
+            this.extractCss.require(url, urlIndex, obj.module, "require");
+            this.replace(sourceIndex, sourceIndex + source.length, "");
+            return;
+        }
 
-            /**
-             * 全局模块。
-             */
-            global?: boolean;
+        this.require(url, urlIndex, obj.module, "require");
+        this.replace(urlIndex, urlIndex + url.length, module => encodeString(module.target === ModuleTarget.requirejs ? getAmdId(obj.module) : prependDot(this.file.relative(obj.module.file) + obj.query + obj.hash), url));
+    }
 
-            /**
-             * process 模块。
-             */
-            process?: boolean;
+    /**
+     * 判断当前模块是否是 AMD 模块（即源码中包含 define() 调用）。
+     */
+    amd: boolean;
 
-            /**
-             * Buffer 模块。
-             */
-            Buffer?: boolean;
+    /**
+     * 解析 define([...], factory)。
+     * @param source 相关的代码片段。
+     * @param sourceIndex *source* 在源文件的起始位置。
+     * @param prefix 依赖列表前的部分。
+     * @param name 模块名。
+     * @param deps 依赖列表。
+     */
+    parseDefine(source: string, sourceIndex: number, prefix: string, name: string, deps: string) {
+        if (this.options.js && this.options.js.define === false) return;
 
-            /**
-             * __filename 模块。
-             */
-            __filename?: boolean;
+        // 一个模块只处理首个 define()。
+        if (this.amd) return;
+        this.amd = true;
+        this.setDefaultTarget(ModuleTarget.requirejs);
+
+        // 打包后使用统一的模块名。
+        let nameIndex = sourceIndex + prefix.length;
+        if (name) {
+            this.replace(nameIndex, nameIndex + name.length, module => module.target === ModuleTarget.requirejs ? encodeString(getAmdId(this), name) : name);
+        } else {
+            this.replace(nameIndex, nameIndex, module => module.target === ModuleTarget.requirejs ? JSON.stringify(getAmdId(this)) + ", " : "");
+        }
+
+        // 解析依赖列表。
+        let depsIndex = sourceIndex + source.length - deps.length;
+        deps.replace(/'(?:[^\\'\n\r\f]|\\[\s\S])*'|"(?:[^\\"\n\f]|\\[\s\S])*"/g, (url: string, index: number) => {
+            let value = decodeString(url);
+
+            // 跳过 AMD 内置模块和插件。
+            if (value === "require" || value === "exports" || value === "module" || value.indexOf("!") >= 0) return "";
+
+            let urlIndex = depsIndex + index;
+            let obj = this.resolveUrl(url, urlIndex, value, UrlUsage.require);
+            if (!obj) return "";
+            this.require(url, urlIndex, obj.module, "define");
+            this.replace(urlIndex, urlIndex + url.length, encodeString(getAmdId(obj.module), url));
+            return "";
+        });
+    }
+
+    // #region ES6 模块
+
+    /**
+     * 存储 ES6 模块导入的绑定。键为本地名。
+     */
+    private _imports: {
+        [name: string]: {
 
             /**
-             * __dirname 模块。
+             * 存储导入模块的变量名。
              */
-            __dirname?: boolean;
+            variable: string;
 
             /**
-             * setImmediate 模块。
+             * 导入的模块。
              */
-            setImmediate?: boolean;
+            module: BuildModule;
 
             /**
-             * Node 内置模块。
+             * 导入的导出名。如果是 `*` 表示导入整个模块。
              */
-            native?: boolean;
+            name: string;
 
-        };
+        }
+    };
+
+    /**
+     * 存储 ES6 模块导出的绑定。键为导出名，值为本地名或表达式。
+     */
+    private _exports: { [name: string]: string };
+
+    /**
+     * 存储 ES6 模块导出的声明。
+     */
+    private _exportDeclarations: {
+
+        /**
+         * 声明的导出名。
+         */
+        exports: string[];
+
+        /**
+         * 声明的本地变量名。
+         */
+        names: string[];
+
+        /**
+         * 声明在源文件的起始位置（包括 export）。
+         */
+        startIndex: number;
+
+        /**
+         * 声明在源文件的结束位置（不包括结束位置）。
+         */
+        endIndex: number;
+
+    }[];
+
+    /**
+     * 存储已生成的导入模块变量的个数。
+     */
+    private _importCounter: number;
+
+    /**
+     * 判断当前模块是否以表达式导出了 default。
+     */
+    private _defaultExpression: boolean;
+
+    /**
+     * 解析 import ... from '...'。
+     * @param source 相关的代码片段。
+     * @param sourceIndex *source* 在源文件的起始位置。
+     */
+    parseImport(source: string, sourceIndex: number) {
+        if (this.options.js && this.options.js.esModule === false) return;
+        let match = /^import\s*(?:([\w$]+)\s*,?\s*)?(?:\*\s*as\s+([\w$]+)\s*|\{([^}]*)\}\s*)?(?:from\s*)?('(?:[^\\'\n\r\f]|\\[\s\S])*'|"(?:[^\\"\n\f]|\\[\s\S])*")/.exec(source);
+        let url = match[4];
+        let urlIndex = sourceIndex + match[0].length - url.length;
+        let obj = this.resolveImportPath(url, urlIndex, "import");
+        if (!obj) return;
+
+        // import '...'
+        if (match[1] == null && match[2] == null && match[3] == null) {
+            this.replace(sourceIndex, sourceIndex + source.length, module => this.isSkipped(obj.module, module) || isHoisted(obj.module, module) ? "" : `require(${obj.path(module)});`);
+            return;
+        }
+
+        // import * as name from '...'
+        let variable = match[2] || this.createImportVariable();
+        this.replace(sourceIndex, sourceIndex + source.length, module => this.isSkipped(obj.module, module) || isHoisted(obj.module, module) ? "" : `var ${this.getLocalName(variable, module)} = __tpack__.interop(require(${obj.path(module)}));`);
+
+        this._imports = this._imports || { __proto__: null };
+
+        if (match[2] != null) {
+            this._imports[match[2]] = { variable, module: obj.module, name: "*" };
+        }
+
+        // import name from '...'
+        if (match[1] != null) {
+            this._imports[match[1]] = { variable, module: obj.module, name: "default" };
+        }
+
+        // import { a, b as c } from '...'
+        if (match[3] != null) {
+            forEachSpecifier(match[3], (imported, local) => {
+                this._imports[local] = { variable, module: obj.module, name: imported };
+            });
+        }
+    }
+
+    /**
+     * 解析 export ...。
+     * @param source 相关的代码片段。
+     * @param sourceIndex *source* 在源文件的起始位置。
+     */
+    parseExport(source: string, sourceIndex: number) {
+        if (this.options.js && this.options.js.esModule === false) return;
+        this._exports = this._exports || { __proto__: null };
+
+        // export * from '...'
+        let match = /^export\s*\*\s*from\s*('(?:[^\\'\n\r\f]|\\[\s\S])*'|"(?:[^\\"\n\f]|\\[\s\S])*")/.exec(source);
+        if (match) {
+            let url = match[1];
+            let obj = this.resolveImportPath(url, sourceIndex + match[0].length - url.length, "export");
+            if (!obj) return;
+            this.useExports(obj.module);
+            this._noHoist = true;
+            let variable = this.createImportVariable();
+            this.replace(sourceIndex, sourceIndex + source.length, module => `var ${variable} = require(${obj.path(module)}); __tpack__.exportStar(exports, ${variable});`);
+            return;
+        }
+
+        // export { a, b as c }, export { a, b as c } from '...'
+        match = /^export\s*\{([^}]*)\}(?:\s*from\s*('(?:[^\\'\n\r\f]|\\[\s\S])*'|"(?:[^\\"\n\f]|\\[\s\S])*"))?/.exec(source);
+        if (match) {
+            let url = match[2];
+            if (url == null) {
+                forEachSpecifier(match[1], (local, exported) => {
+                    this._exports[exported] = local;
+                });
+                this.replace(sourceIndex, sourceIndex + source.length, "");
+                return;
+            }
+            let obj = this.resolveImportPath(url, sourceIndex + match[0].length - url.length, "export");
+            if (!obj) return;
+            this._noHoist = true;
+            let variable = this.createImportVariable();
+            this.replace(sourceIndex, sourceIndex + source.length, module => `var ${variable} = __tpack__.interop(require(${obj.path(module)}));`);
+            let names: string[] = [];
+            forEachSpecifier(match[1], (imported, exported) => {
+                this._exports[exported] = getMember(variable, imported);
+                names.push(imported);
+            });
+            this.useExports(obj.module, names);
+            return;
+        }
+
+        // export default function name() {}, export default class name {}
+        match = /^export\s+default\s+((?:async\s+)?function\b\s*\*?\s*|class\b\s*)([\w$]+)?/.exec(this.content.substr(sourceIndex, 256));
+        if (match) {
+            if (match[2] != null && match[2] !== "extends") {
+                this._exports["default"] = match[2];
+                this.replace(sourceIndex, sourceIndex + match[0].length - match[1].length - match[2].length, "");
+                this.addExportDeclaration(["default"], [match[2]], sourceIndex, sourceIndex + match[0].length - match[1].length - match[2].length);
+            } else {
+                this._defaultExpression = true;
+                this.replace(sourceIndex, sourceIndex + match[0].length - match[1].length - (match[2] || "").length, module => isHoisted(this, module) ? `var ${this.getLocalName("__default", module)} = ` : `exports["default"] = `);
+            }
+            return;
+        }
+
+        // export default expression
+        if (/^export\s+default\b/.test(source)) {
+            this._defaultExpression = true;
+            this.replace(sourceIndex, sourceIndex + source.length, module => isHoisted(this, module) ? `var ${this.getLocalName("__default", module)} =` : `exports["default"] =`);
+            return;
+        }
+
+        // export var a = 1, b = 2, export function name() {}, export class name {}
+        let declaration = /^export\s+/.exec(source)[0];
+        this.replace(sourceIndex, sourceIndex + declaration.length, "");
+        let names = getDeclarationNames(this.content, sourceIndex + declaration.length, this._tokens);
+        for (let i = 0; i < names.length; i++) {
+            this._exports[names[i]] = names[i];
+        }
+        this.addExportDeclaration(names, names, sourceIndex, sourceIndex + declaration.length);
+    }
+
+    /**
+     * 记录一个导出的声明。
+     * @param exports 声明的导出名。
+     * @param names 声明的本地变量名。
+     * @param sourceIndex 声明在源文件的起始位置（包括 export）。
+     * @param declarationIndex 声明关键字在源文件的起始位置。
+     */
+    private addExportDeclaration(exports: string[], names: string[], sourceIndex: number, declarationIndex: number) {
+        if (!names.length) return;
+        this._exportDeclarations = this._exportDeclarations || [];
+        this._exportDeclarations.push({ exports, names, startIndex: sourceIndex, endIndex: getDeclarationEnd(this.content, declarationIndex) });
+    }
+
+    /**
+     * 解析 import/export 语句中的模块地址。
+     * @param url 相关的地址。
+     * @param urlIndex *url* 在源文件的起始位置。
+     * @param name 依赖的来源名。
+     * @returns 返回导入的模块和生成最终地址的函数。如果解析失败则返回 null。
+     */
+    protected resolveImportPath(url: string, urlIndex: number, name: string) {
+        this.setDefaultTarget(ModuleTarget.tpack);
+        let obj = this.resolveUrl(url, urlIndex, decodeString(url), UrlUsage.require);
+        if (!obj) return null;
+        this.require(url, urlIndex, obj.module, name);
+        if (obj.module instanceof JsModule) {
+            obj.module.importers = obj.module.importers || [];
+            if (obj.module.importers.indexOf(this) < 0) obj.module.importers.push(this);
+        }
+
+        // 被提升的模块在入口模块内执行，地址需相对于入口模块。
+        return {
+            module: obj.module,
+            path: (module: BuildModule) => encodeString(module.target === ModuleTarget.requirejs ? getAmdId(obj.module) : prependDot((isHoisted(this, module) ? module.file : this.file).relative(obj.module.file) + obj.query + obj.hash), url)
+        };
+    }
+
+    /**
+     * 创建一个存储导入模块的变量名。
+     */
+    private createImportVariable() {
+        return "__module" + (this._importCounter = (this._importCounter + 1) || 1);
+    }
+
+    /**
+     * 生成 ES6 模块的导出项并将导入项的引用更新为对导入模块的实时访问。
+     */
+    protected resolveEsModule() {
+        let imports = this._imports;
+
+        // 更新导入项的引用。
+        if (imports) {
+            let names = Object.keys(imports);
+            if (names.length) {
+                let content = this.content;
+                forEachIdentifier(content, names, (name, nameIndex) => {
+                    let value: (module: BuildModule) => string;
+
+                    // { name } => { name: value }
+                    if (isShorthandProperty(content, nameIndex, name.length)) {
+                        value = module => name + ": " + this.getImportValue(name, module);
+                    } else if (isPropertyName(content, nameIndex, name.length)) {
+                        // { name: ... } 中的属性名不需要更新。
+                        return;
+                    } else {
+                        value = module => this.getImportValue(name, module);
+                    }
+
+                    // 记录实际使用的导入项。位于 import 语句内的名称无法替换，不算作使用。
+                    if (this.replace(nameIndex, nameIndex + name.length, value) >= 0) {
+                        this.useImport(name);
+                    }
+                }, this._tokens, this.getScopes());
+            }
+        }
+
+        // 生成导出项。导出项使用访问器，以便导入方总能获取最新的值。
+        // 被摇树优化删除的声明不再导出，因此需要在写入时生成。
+        let exports = this._exports;
+        if (exports) {
+            if (imports) {
+                for (let name in exports) {
+                    if (imports[exports[name]]) this.useImport(exports[name]);
+                }
+            }
+            this.replace(0, 0, module => {
+
+                // 被提升的模块没有导出对象，导入方直接访问导出的变量。
+                if (isHoisted(this, module)) return "";
+
+                let unused = this.getUnusedExports(module);
+                let getters: string[] = [];
+                for (let name in exports) {
+                    if (unused && unused.indexOf(name) >= 0) continue;
+                    let value = imports && imports[exports[name]] ? this.getImportValue(exports[name], module) : exports[name];
+                    getters.push(`${JSON.stringify(name)}: function () { return ${value}; }`);
+                }
+                return `__tpack__.defineExports(exports, {${getters.join(", ")}});\n`;
+            });
+        }
+
+        // 提升作用域时顶级变量可能需要重命名。
+        if (this.options.js && this.options.js.scopeHoisting && !this._noHoist) {
+            this.resolveTopLevelNames();
+        }
+    }
+
+    /**
+     * 获取写入指定入口模块时访问指定导入项的表达式。
+     * @param name 导入项的本地名。
+     * @param entry 正在写入的入口模块。
+     * @returns 返回表达式。
+     */
+    private getImportValue(name: string, entry: BuildModule) {
+        let binding = this._imports[name];
+
+        // 导入的模块被提升时直接访问其导出的变量。
+        if (binding.module instanceof JsModule && isHoisted(binding.module, entry)) {
+            return binding.module.getExportValue(binding.name, entry);
+        }
+
+        let variable = this.getLocalName(binding.variable, entry);
+        return binding.name === "*" ? variable : getMember(variable, binding.name);
+    }
+
+    // #endregion
+
+    // #region 摇树优化
+
+    /**
+     * 获取其它模块使用的当前模块的导出项。如果可能使用了任意导出项则为 true。
+     */
+    usedExports: string[] | boolean;
+
+    /**
+     * 存储各模块使用的当前模块的导出项，以便使用方失效时重新计算 *usedExports*。
+     */
+    private _exportUsages: Map<BuildModule, string[] | boolean>;
+
+    /**
+     * 标记当前模块依赖了指定的模块。
+     * @param source 相关的代码片段。
+     * @param sourceIndex *source* 在源文件的起始位置。
+     * @param module 依赖的模块。
+     * @param name 依赖的来源名。
+     */
+    require(source: string, sourceIndex: number, module: BuildModule, name: string) {
+        super.require(source, sourceIndex, module, name);
+
+        // import/export 在解析完成后按实际使用标记；提取公共模块不使用任何导出项；其它方式依赖的模块可能使用任意导出项。
+        if (name !== "import" && name !== "export" && name !== "common") {
+            this.useExports(module);
+        }
+    }
+
+    /**
+     * 标记使用了指定模块的导出项。
+     * @param module 使用的模块。
+     * @param names 使用的导出项。如果未指定则表示可能使用了任意导出项。
+     */
+    protected useExports(module: BuildModule, names?: string[]) {
+        if (!(module instanceof JsModule)) return;
+        let usages = module._exportUsages || (module._exportUsages = new Map<BuildModule, string[] | boolean>());
+        let used = usages.get(this);
+        if (used !== true) {
+            if (!names) {
+                usages.set(this, true);
+            } else {
+                let list = (used || []) as string[];
+                for (let i = 0; i < names.length; i++) {
+                    if (list.indexOf(names[i]) < 0) list.push(names[i]);
+                }
+                usages.set(this, list);
+            }
+        }
+
+        if (module.usedExports === true) return;
+        if (!names) {
+            module.usedExports = true;
+            return;
+        }
+        let usedExports = (module.usedExports || (module.usedExports = [])) as string[];
+        for (let i = 0; i < names.length; i++) {
+            if (usedExports.indexOf(names[i]) < 0) usedExports.push(names[i]);
+        }
+    }
+
+    /**
+     * 当前模块失效时移除当前模块在其依赖的模块中留下的记录。
+     * @param invalidated 所有失效的模块。
+     */
+    protected unlink(invalidated: BuildModule[]) {
+        super.unlink(invalidated);
+
+        // 分包的内容由异步依赖它的模块决定，需要移除失效模块的异步依赖关系。
+        if (this.asyncRequires) {
+            for (const module of this.asyncRequires) {
+                let index = module.dependents ? module.dependents.indexOf(this) : -1;
+                if (index >= 0) module.dependents.splice(index, 1);
+            }
+        }
+
+        // 未失效的模块不会重新解析，需要移除失效模块的导入关系并重新计算使用的导出项，否则重新生成时无法提升和摇树。
+        for (const list of [this.requires, this.refs]) {
+            if (!list) continue;
+            for (const module of list) {
+                if (!(module instanceof JsModule) || invalidated.indexOf(module) >= 0) continue;
+                if (module.importers) {
+                    let index = module.importers.indexOf(this);
+                    if (index >= 0) module.importers.splice(index, 1);
+                }
+                if (module._exportUsages && module._exportUsages.delete(this)) {
+                    let usedExports: string[] | boolean = null;
+                    module._exportUsages.forEach(names => {
+                        if (usedExports === true) return;
+                        if (names === true) {
+                            usedExports = true;
+                            return;
+                        }
+                        usedExports = usedExports || [];
+                        for (const name of names as string[]) {
+                            if ((usedExports as string[]).indexOf(name) < 0) (usedExports as string[]).push(name);
+                        }
+                    });
+                    module.usedExports = usedExports;
+                }
+            }
+        }
+    }
+
+    /**
+     * 标记使用了指定的导入项。
+     * @param name 导入项的本地名。
+     */
+    private useImport(name: string) {
+        let binding = this._imports[name];
+        this.useExports(binding.module, binding.name === "*" ? null : [binding.name]);
+    }
+
+    /**
+     * 判断当前模块是否启用摇树优化。
+     */
+    get treeShaking() {
+        return !this.options.js || this.options.js.treeShaking !== false;
+    }
+
+    /**
+     * 存储当前模块是否有副作用。
+     */
+    private _sideEffects: boolean;
+
+    /**
+     * 判断当前模块是否有副作用。由所在包的 package.json 中的 sideEffects 字段决定。
+     */
+    get sideEffects() {
+        if (this._sideEffects == null) {
+            this._sideEffects = hasSideEffects(this.path);
+        }
+        return this._sideEffects;
+    }
+
+    /**
+     * 判断写入指定入口模块时是否可以跳过指定的模块。
+     * @param module 要判断的模块。
+     * @param entry 正在写入的入口模块。
+     * @returns 如果模块无副作用且导出项均未被使用则返回 true，否则返回 false。
+     */
+    protected isSkipped(module: BuildModule, entry: BuildModule) {
+        return module !== entry && module instanceof JsModule && module.treeShaking && (!module.usedExports || !(module.usedExports as string[]).length) && !module.sideEffects;
+    }
+
+    /**
+     * 获取写入时实际需要写入的模块列表。
+     * @param moduleList 所有模块列表。
+     * @returns 返回排除可跳过和被提升的模块后的列表。
+     */
+    protected getWrittenModules(moduleList = this.getAllRequires()) {
+        moduleList = moduleList.filter(module => !this.isSkipped(module, this));
+
+        // 被提升的模块写入到当前模块内。
+        this.hoistModules(moduleList);
+        return this.hoistedModules ? moduleList.filter(module => this.hoistedModules.indexOf(module as JsModule) < 0) : moduleList;
+    }
+
+    /**
+     * 存储导出声明的变量在源文件中被引用的位置。
+     */
+    private _declarationReferences: { [name: string]: number[] };
+
+    /**
+     * 获取写入指定入口模块时可以删除的导出声明。
+     * @param entry 正在写入的入口模块。
+     * @returns 返回可删除的导出声明。如果没有可删除的声明则返回 null。
+     */
+    protected getUnusedDeclarations(entry: BuildModule) {
+        let declarations = this._exportDeclarations;
+        let usedExports = this.usedExports;
+        if (!declarations || usedExports === true || this === entry || !this.treeShaking) return null;
+
+        // 删除导出项均未被使用的声明。
+        let result = declarations.filter(declaration => !usedExports || declaration.exports.every(name => (usedExports as string[]).indexOf(name) < 0));
+        if (!result.length) return null;
+
+        // 与其它替换记录部分重叠的声明无法删除。
+        let replacements = this.replacements;
+        result = result.filter(declaration => !replacements.some(r => r.startIndex < declaration.endIndex && r.endIndex > declaration.endIndex || r.startIndex < declaration.startIndex && r.endIndex > declaration.startIndex));
+
+        // 仍被模块内其它代码引用的声明需要保留。保留的声明可能引用其它声明，因此需重复检查。
+        let references = this.getDeclarationReferences();
+        let changed = true;
+        while (changed) {
+            changed = false;
+            let removed = result;
+            result = removed.filter(declaration => {
+                let referenced = declaration.names.some(name => references[name].some(index => !removed.some(r => index >= r.startIndex && index < r.endIndex)));
+                if (referenced) changed = true;
+                return !referenced;
+            });
+        }
+
+        return result.length ? result : null;
+    }
+
+    /**
+     * 获取导出声明的变量在源文件中被引用的位置。
+     * @returns 返回键为变量名、值为引用位置列表的对象。
+     */
+    private getDeclarationReferences() {
+        if (!this._declarationReferences) {
+            let references: { [name: string]: number[] } = { __proto__: null };
+            for (let i = 0; i < this._exportDeclarations.length; i++) {
+                for (let j = 0; j < this._exportDeclarations[i].names.length; j++) {
+                    references[this._exportDeclarations[i].names[j]] = [];
+                }
+            }
+            let content = this.content;
+            forEachIdentifier(content, Object.keys(references), (name, nameIndex) => {
+
+                // { name: ... } 中的属性名不是引用。
+                if (!isPropertyName(content, nameIndex, name.length)) {
+                    references[name].push(nameIndex);
+                }
+            });
+            this._declarationReferences = references;
+        }
+        return this._declarationReferences;
+    }
+
+    /**
+     * 获取写入指定入口模块时删除未使用的导出项后的导出名。
+     * @param entry 正在写入的入口模块。
+     * @returns 返回已删除的导出名。如果没有删除任何导出项则返回 null。
+     */
+    protected getUnusedExports(entry: BuildModule) {
+        let declarations = this.getUnusedDeclarations(entry);
+        if (!declarations) return null;
+        let result: string[] = [];
+        for (let i = 0; i < declarations.length; i++) {
+            result.push(...declarations[i].exports);
+        }
+        return result;
+    }
+
+    /**
+     * 获取写入指定入口模块时删除未使用的导出声明后的替换列表。
+     * @param entry 正在写入的入口模块。
+     * @returns 返回替换列表。
+     */
+    protected getShakenReplacements(entry: BuildModule) {
+        let declarations = this.getUnusedDeclarations(entry);
+        if (!declarations) return this.replacements;
+
+        // 删除声明内的替换记录，声明首尾插入的内容仍然保留。
+        let result = this.replacements.filter(r => !declarations.some(declaration => r.startIndex >= declaration.startIndex && r.endIndex <= declaration.endIndex && !(r.startIndex === r.endIndex && (r.startIndex === declaration.startIndex || r.startIndex === declaration.endIndex))));
+        for (let i = 0; i < declarations.length; i++) {
+            result.push({ startIndex: declarations[i].startIndex, endIndex: declarations[i].endIndex, data: "" });
+        }
+        return result.sort((x, y) => x.startIndex - y.startIndex || (x.endIndex - x.startIndex) - (y.endIndex - y.startIndex));
+    }
+
+    // #endregion
+
+    // #region 作用域提升
+
+    /**
+     * 存储当前模块是否不能被提升到入口模块的作用域（如使用了 require()、module 等）。
+     */
+    private _noHoist: boolean;
+
+    /**
+     * 获取以 import/export 依赖当前模块的模块。
+     */
+    importers: JsModule[];
+
+    /**
+     * 存储当前模块声明的顶级变量。
+     */
+    private _topLevelNames: string[];
+
+    /**
+     * 存储当前模块源码中出现的所有标识符。
+     */
+    private _identifiers: { [name: string]: boolean };
+
+    /**
+     * 获取写入当前模块时被提升到当前模块作用域内的模块。
+     */
+    hoistedModules: JsModule[];
+
+    /**
+     * 存储被提升的模块中需要重命名的顶级变量。键为原变量名，值为新变量名。
+     */
+    private _hoistedNames: { [name: string]: string }[];
+
+    /**
+     * 判断当前模块是否可以被提升到入口模块的作用域。
+     */
+    get hoistable() {
+        return !this._noHoist && !this.amd && this._topLevelNames != null && this.usedExports !== true;
+    }
+
+    /**
+     * 查找当前模块声明的顶级变量并标记所有引用，以便提升时重命名。
+     */
+    private resolveTopLevelNames() {
+        let names = getTopLevelNames(this.content);
+        if (!names) {
+            this._noHoist = true;
+            return;
+        }
+        if (this._keywordVariables) {
+            for (const name of this._keywordVariables) {
+                if (names.indexOf(name) < 0) names.push(name);
+            }
+        }
+        this._topLevelNames = names;
+        if (!names.length) return;
+
+        let content = this.content;
+        forEachIdentifier(content, names, (name, nameIndex) => {
+
+            // { name } => { name: newName }
+            if (isShorthandProperty(content, nameIndex, name.length)) {
+                this.replace(nameIndex, nameIndex + name.length, module => {
+                    let local = this.getLocalName(name, module);
+                    return local === name ? name : name + ": " + local;
+                });
+            } else if (!isPropertyName(content, nameIndex, name.length)) {
+                this.replace(nameIndex, nameIndex + name.length, module => this.getLocalName(name, module));
+            }
+        }, this._tokens);
+    }
+
+    /**
+     * 获取当前模块在提升后占用的所有顶级变量名，包括生成的导入变量。
+     */
+    private getHoistedNames() {
+        let result = this._topLevelNames.slice(0);
+        for (let i = 1; i <= this._importCounter; i++) {
+            result.push("__module" + i);
+        }
+        for (let name in this._imports) {
+            if (this._imports[name].name === "*") result.push(name);
+        }
+        if (this._defaultExpression) result.push("__default");
+        return result;
+    }
+
+    /**
+     * 获取当前模块源码中出现的所有标识符，包括生成的导入变量。
+     */
+    private getIdentifiers() {
+        if (!this._identifiers) {
+            let identifiers: { [name: string]: boolean } = { __proto__: null };
+            let names = this.content.match(/[\w$]+/g) || [];
+            for (let i = 0; i < names.length; i++) {
+                identifiers[names[i]] = true;
+            }
+            if (this._topLevelNames) {
+                let hoistedNames = this.getHoistedNames();
+                for (let i = 0; i < hoistedNames.length; i++) {
+                    identifiers[hoistedNames[i]] = true;
+                }
+            }
+            this._identifiers = identifiers;
+        }
+        return this._identifiers;
+    }
+
+    /**
+     * 计算写入当前模块时可以提升到当前模块作用域内的模块。
+     * @param moduleList 要写入的模块列表。
+     */
+    protected hoistModules(moduleList: BuildModule[]) {
+        this.hoistedModules = this._hoistedNames = null;
+        if (this.target !== ModuleTarget.tpack || !this.options.js || !this.options.js.scopeHoisting) return;
+
+        // 只有所有导入方都在当前作用域内时才能提升，否则其它模块无法通过加载器获取导出对象。
+        let modules = moduleList.filter(module => module !== this && module instanceof JsModule && module.hoistable) as JsModule[];
+        let changed = true;
+        while (changed) {
+            changed = false;
+            let hoisted = modules;
+            modules = hoisted.filter(module => {
+                let hoistable = module.importers.every(importer => importer === this || hoisted.indexOf(importer) >= 0);
+                if (!hoistable) changed = true;
+                return hoistable;
+            });
+        }
+        if (!modules.length) return;
+
+        // 统计每个标识符在多少个模块中出现。加载器使用的变量名也不可占用。
+        let counts: { [name: string]: number } = { __proto__: null, require: 1, exports: 1, module: 1, __tpack__: 1 };
+        let scope = modules.concat(this);
+        for (let i = 0; i < scope.length; i++) {
+            let identifiers = scope[i].getIdentifiers();
+            for (let name in identifiers) {
+                counts[name] = (counts[name] || 0) + 1;
+            }
+        }
+
+        // 和其它模块中的标识符同名的顶级变量需要重命名，以免覆盖其它模块的变量或全局变量。
+        let used: { [name: string]: boolean } = { __proto__: null };
+        this._hoistedNames = modules.map(module => {
+            let result: { [name: string]: string } = { __proto__: null };
+            let names = module.getHoistedNames();
+            for (let i = 0; i < names.length; i++) {
+                let name = names[i];
+                let local = name;
+                for (let j = 1; counts[local] > (local === name ? 1 : 0) || used[local]; j++) {
+                    local = name + "_" + j;
+                }
+                used[local] = true;
+                if (local !== name) result[name] = local;
+            }
+            return result;
+        });
+        this.hoistedModules = modules;
+    }
+
+    /**
+     * 获取写入指定入口模块时当前模块的顶级变量重命名后的名称。
+     * @param name 顶级变量名。
+     * @param entry 正在写入的入口模块。
+     * @returns 返回新变量名。
+     */
+    protected getLocalName(name: string, entry: BuildModule) {
+        let index = entry instanceof JsModule && entry.hoistedModules ? entry.hoistedModules.indexOf(this) : -1;
+        return index >= 0 && (entry as JsModule)._hoistedNames[index][name] || name;
+    }
+
+    /**
+     * 获取写入指定入口模块时访问当前模块指定导出项的表达式。仅当当前模块被提升时有效。
+     * @param name 导出名。
+     * @param entry 正在写入的入口模块。
+     * @returns 返回表达式。
+     */
+    protected getExportValue(name: string, entry: BuildModule): string {
+        let local = this._exports && this._exports[name];
+        if (local == null) return name === "default" && this._defaultExpression ? this.getLocalName("__default", entry) : "undefined";
+        if (this._imports && this._imports[local]) return this.getImportValue(local, entry);
+        return this.getLocalName(local, entry);
+    }
+
+    /**
+     * 写入被提升到当前模块作用域内的模块。
+     * @param writer 目标输出器。
+     */
+    protected writeHoistedModules(writer: Writer) {
+        let options = this.options.output;
+        for (let i = 0; i < this.hoistedModules.length; i++) {
+            let module = this.hoistedModules[i];
+            if (options && options.modulePrefix) writer.write(module.file.format(options.modulePrefix));
+            this.writeModuleBody(writer, module);
+            if (options && options.modulePostfix) writer.write(module.file.format(options.modulePostfix));
+            if (!options || options.moduleSeperator !== "") writer.write(options && options.moduleSeperator || "\n");
+        }
+    }
+
+    // #endregion
+
+    /**
+     * 获取当前模块异步依赖的所有模块。
+     */
+    asyncRequires: JsModule[];
+
+    /**
+     * 如果当前模块被其它模块异步依赖，则返回生成的分包文件。
+     */
+    chunk: BuildFile;
+
+    /**
+     * 解析 require(url, callback) 或 require([url, ...], callback)。
+     * @param source 相关的代码片段。
+     * @param sourceIndex *source* 在源文件的起始位置。
+     * @param urls 相关的地址或地址数组。
+     * @param urlsIndex *urls* 在源文件的起始位置。
+     */
+    parseAsyncRequire(source: string, sourceIndex: number, urls: string, urlsIndex: number) {
+        let options = this.options.js && this.options.js.require;
+        if (options === false) return;
+        let async = !options || options.async !== false;
+        this.setDefaultTarget(ModuleTarget.tpack);
+        this._noHoist = true;
+        urls.replace(/'(?:[^\\'\n\r\f]|\\[\s\S])*'|"(?:[^\\"\n\f]|\\[\s\S])*"/g, (url: string, index: number) => {
+            let urlIndex = urlsIndex + index;
+            let obj = this.resolveUrl(url, urlIndex, decodeString(url), UrlUsage.require);
+            if (!obj) return "";
+
+            // 禁用分包时按同步依赖打包。
+            if (!async) {
+                this.require(url, urlIndex, obj.module, "require");
+                this.replace(urlIndex, urlIndex + url.length, encodeString(prependDot(this.file.relative(obj.module.file) + obj.query + obj.hash), url));
+                return "";
+            }
+
+            // 非 JS 模块（如 CSS）由加载器直接载入。
+            let target = obj.module.type === ModuleType.js ? this.resolveChunk(obj.module as JsModule) : obj.module.file;
+            this.ref(url, urlIndex, obj.module, "async require");
+            this.useExports(obj.module);
+            this.replace(urlIndex, urlIndex + url.length, module => encodeString(prependDot(this.file.relative(getAsyncTarget(module, obj.module, target)) + obj.query + obj.hash), url));
+            return "";
+        });
+    }
+
+    /**
+     * 解析 import(url)。
+     * @param source 相关的代码片段。
+     * @param sourceIndex *source* 在源文件的起始位置。
+     * @param url 相关的地址。
+     * @param urlIndex *url* 在源文件的起始位置。
+     */
+    parseDynamicImport(source: string, sourceIndex: number, url: string, urlIndex: number) {
+        let options = this.options.js && this.options.js.require;
+        if (options === false) return;
+        this.setDefaultTarget(ModuleTarget.tpack);
+        this._noHoist = true;
+        let obj = this.resolveUrl(url, urlIndex, decodeString(url), UrlUsage.require);
+        if (!obj) return;
+
+        // 禁用分包时按同步依赖打包，加载器将直接返回已定义的模块。
+        let target: BuildFile;
+        if (options && options.async === false) {
+            this.require(url, urlIndex, obj.module, "import()");
+            target = obj.module.file;
+        } else {
+            target = obj.module.type === ModuleType.js ? this.resolveChunk(obj.module as JsModule) : obj.module.file;
+            this.ref(url, urlIndex, obj.module, "import()");
+            this.useExports(obj.module);
+        }
+        this.replace(sourceIndex, sourceIndex + source.length, module => `__tpack__.importModule(${encodeString(prependDot(this.file.relative(getAsyncTarget(module, obj.module, target)) + obj.query + obj.hash), url)}, module.url)`);
+    }
+
+    /**
+     * 获取异步依赖指定模块时使用的分包文件。
+     * @param module 异步依赖的模块。
+     * @return 返回分包文件。
+     */
+    protected resolveChunk(module: JsModule) {
+        this.asyncRequires = this.asyncRequires || [];
+        if (this.asyncRequires.indexOf(module) < 0) this.asyncRequires.push(module);
+        addDependent(module, this);
+
+        if (!module.chunk) {
+            let chunk = this.options.js && this.options.js.require && this.options.js.require.chunk;
+            if (typeof chunk === "function") chunk = (chunk as (file: BuildFile) => string)(module.file);
+            let url = chunk ? module.file.resolve(module.file.format(chunk as string)) : module.file.srcName.replace(/\.\w+$/, "") + ".chunk.js";
+            module.chunk = this.file.builder.createFile(url);
+            module.chunk.webModule = module;
+            this.file.relate(module.chunk);
+        }
+
+        return module.chunk;
+    }
+
+    /**
+     * 存储已添加的符号。
+     */
+    private _parsedKeywords: string[];
+
+    /**
+     * 存储为符号添加的顶级变量。
+     */
+    private _keywordVariables: string[];
+
+    /**
+     * 解析一个文件内的符号。
+     * @param source 要处理的内容。
+     * @param index *source* 在源文件的起始位置。
+     * @param keyword 要解析的符号。
+     */
+    parseKeyword(source: string, index: number) {
+
+        let options = this.options.js && this.options.js.keyword;
+        if (options === false || options && options[source] === false) return;
+
+        this._parsedKeywords = this._parsedKeywords || [];
+        if (this._parsedKeywords.indexOf(source) >= 0) return;
+        this._parsedKeywords.push(source);
+
+        let requireModule: string;
+        let prepend: string;
+
+        switch (source) {
+            case "require":
+            case "exports":
+            case "module":
+                // 直接使用 module、exports 或动态使用 require 时无法确定导出项和依赖，不能提升。
+                this._noHoist = true;
+                this.setDefaultTarget(ModuleTarget.tpack);
+                break;
+            case "global":
+                prepend = 'var global = (function(){return this;})();\n';
+                break;
+            case "process":
+                requireModule = "process";
+                prepend = 'var process = require(~);\n';
+                break;
+            case "Buffer":
+                requireModule = "buffer";
+                prepend = 'var Buffer = require(~);\n';
+                break;
+            case "setImmediate":
+            case "clearImmediate":
+                requireModule = "timers";
+                prepend = `var ${source} = require(~).${source};\n`;
+                break;
+            case "__dirname":
+                prepend = `var __dirname = ${JSON.stringify(this.file.srcDir)};\n`;
+                break;
+            case "__filename":
+                prepend = `var __filename = ${JSON.stringify(this.file.srcPath)};\n`;
+                break;
+        }
+
+        // 如果需要额外请求模块。
+        if (requireModule && (!this.options.resolve || this.options.resolve.native !== false)) {
+            this.setDefaultTarget(ModuleTarget.tpack);
+            if (this.target !== ModuleTarget.tpack) return;
+            let module = this.resolveRequire(source, index, requireModule, "auto require");
+            if (!module) return;
+
+            prepend = prepend.replace("~", JSON.stringify(prependDot(this.file.relative(module.path))));
+        }
+
+        // 追加文本内容。提升作用域时添加的变量可能需要重命名。
+        if (prepend) {
+            this._keywordVariables = this._keywordVariables || [];
+            this._keywordVariables.push(source);
+            this.replace(0, 0, module => prepend.replace(source, this.getLocalName(source, module)));
+        }
+
+    }
+
+    /**
+     * 将模块信息保存到源文件。
+     */
+    save() {
+        if (this.saved) return;
+
+        // 分包的文件名可能包含内容哈希，需要在写入引用分包的模块前保存。
+        let loaded = this.getAllRequires().concat(this.getAllExternals());
+        loadedModules.set(this, loaded);
+        this.saveChunks(loaded, []);
+        super.save();
+    }
+
+    /**
+     * 保存指定模块异步依赖的分包。
+     * @param loaded 上级包已载入的模块。上级包已包含的异步依赖模块不再生成分包。
+     * @param saved 已保存的分包对应的模块。
+     */
+    protected saveChunks(loaded: BuildModule[], saved: BuildModule[]) {
+        let options = this.options.output;
+        for (let i = 0; i < loaded.length; i++) {
+            let asyncRequires = (loaded[i] as JsModule).asyncRequires;
+            if (!asyncRequires) continue;
+            for (let j = 0; j < asyncRequires.length; j++) {
+                let module = asyncRequires[j];
+
+                // 上级包已包含被异步依赖的模块，加载器可直接从上级包获取，无需生成分包。
+                if (loaded.indexOf(module) >= 0 || saved.indexOf(module) >= 0) continue;
+                saved.push(module);
+
+                // 分包可能被多个包共用，其内容只能排除所有异步依赖它的模块都已载入的模块，而不能依赖当前包。
+                let chunkLoaded = getChunkLoaded(module);
+                let moduleList = module.getAllRequires().filter(m => chunkLoaded.indexOf(m) < 0);
+                chunkLoaded = chunkLoaded.concat(moduleList);
+                loadedModules.set(module, chunkLoaded);
+
+                // 分包内的模块可能继续异步依赖其它模块。
+                this.saveChunks(chunkLoaded, saved);
+
+                this.saveRefs(moduleList);
+                let writer = module.chunk.createWriter(options && options.sourceMap != null ? options.sourceMap : !!module.chunk.sourceMap);
+                module.write(writer, moduleList);
+                writer.end();
+                this.renameFile(module.chunk);
+            }
+        }
+    }
+
+    /**
+     * 将当前模块及依赖项写入的指定的输出器。
+     * @param writer 目标输出器。
+     * @param moduleList 手动指定写入的模块列表。手动指定时（如写入分包）不写入加载器。
+     */
+    write(writer: Writer, moduleList?: BuildModule[]) {
+        let options = this.options.js && this.options.js.require;
+        let library = getLibrary(this.options);
+        if (!moduleList && this.target === ModuleTarget.tpack && library != null) {
+            this.writeLibrary(writer, library);
+            return;
+        }
+        if (!moduleList && this.target === ModuleTarget.tpack && (!this.externals || !this.externals.length)) {
+            writer.write(getLoader());
+            if (options && options.hot) writer.write(`\n\n__tpack__.hot = true;`);
+        }
+        super.write(writer, this.getWrittenModules(moduleList));
+
+        // AMD 模块都是具名模块，需要手动执行入口模块。
+        if (!moduleList && this.target === ModuleTarget.requirejs) {
+            writer.write(`\n\nrequire([${JSON.stringify(getAmdId(this))}]);`);
+        }
+    }
+
+    /**
+     * 以库方式写入当前模块及依赖项。
+     * @param writer 目标输出器。
+     * @param library 导出的库名。
+     */
+    protected writeLibrary(writer: Writer, library: string) {
+        let name = JSON.stringify(library);
+        let libraryTarget = this.options.js.require && this.options.js.require.libraryTarget || "var";
+        switch (libraryTarget) {
+            case "var":
+                writer.write(`var ${library} = (function () {\n`);
+                break;
+            case "this":
+                writer.write(`this[${name}] = (function () {\n`);
+                break;
+            case "commonjs":
+                writer.write(`exports[${name}] = (function () {\n`);
+                break;
+            case "commonjs2":
+                writer.write(`module.exports = (function () {\n`);
+                break;
+            case "amd":
+                writer.write(`define(${library ? name + ", " : ""}[], function () {\n`);
+                break;
+            case "umd":
+                writer.write(`(function (root, factory) {\n\tif (typeof exports === "object" && typeof module === "object") module.exports = factory();\n\telse if (typeof define === "function" && define.amd) define([], factory);\n\telse if (typeof exports === "object") exports[${name}] = factory();\n\telse root[${name}] = factory();\n})(this, function () {\n`);
+                break;
+            default:
+                this.report("(options: js.require.libraryTarget)", -1, "Invalid libraryTarget: '{libraryTarget}'. Supported libraryTarget is one of {supported}.", { libraryTarget, supported: "'var', 'this', 'commonjs', 'commonjs2', 'amd', 'umd'" }, true);
+                writer.write(`var ${library} = (function () {\n`);
+                libraryTarget = "var";
+                break;
+        }
+
+        // 加载器定义在函数内，不影响页面上的其它加载器。
+        writer.write(getLoader());
+        super.write(writer, this.getWrittenModules());
+
+        // 库内的入口模块使用地址定义，以便在非浏览器环境下也可执行。
+        writer.write(`\n\nreturn __tpack__.exec(${JSON.stringify(prependDot(this.file.relative(this.file)))});\n`);
+        writer.write(libraryTarget === "amd" || libraryTarget === "umd" ? `});` : `})();`);
+    }
+
+    /**
+     * 写入一个模块。
+     * @param writer 目标输出器。
+     * @param module 要写入的模块。
+     */
+    protected writeModule(writer: Writer, module: BuildModule) {
+
+        if (this.target === ModuleTarget.requirejs) {
+            this.writeAmdModule(writer, module);
+            return;
+        }
+
+        if (this.target !== ModuleTarget.tpack) {
+            super.writeModule(writer, module);
+            return;
+        }
+
+        this.writeDefine(writer, module, module !== writer.file.webModule || getLibrary(this.options) != null);
+    }
+
+    /**
+     * 写入一个 `__tpack__.define()` 调用。
+     * @param writer 目标输出器。
+     * @param module 要写入的模块。
+     * @param named 是否写入模块地址。
+     */
+    private writeDefine(writer: Writer, module: BuildModule, named: boolean) {
+        writer.write('\n\n__tpack__.define(');
+
+        // 分包内的模块地址相对于分包计算，加载器以分包地址为基地址解析。
+        if (named) {
+            writer.write(JSON.stringify(prependDot((this.chunk && writer.file === this.chunk ? this.chunk : this.file).relative(module.file))) + ", ");
+        }
+
+        writer.indentString = this.options.output && this.options.output.sourcePrefix != null ? this.options.output.sourcePrefix : "\t";
+        writer.write('function(require, exports, module) {\n');
+        if (module === this && this.hoistedModules) this.writeHoistedModules(writer);
+        this.writeModuleBody(writer, module);
+        writer.indentString = "";
+        writer.write(`\n});`);
+    }
+
+    /**
+     * 写入模块热替换的更新代码。
+     * @param writer 目标输出器。目标文件对应的模块应为当前模块。
+     * @param moduleList 已更改的模块。
+     * @param baseUrl 运行时当前模块的地址。
+     * @returns 如果更新可以热替换则返回 true，否则返回 false，此时应刷新页面。
+     */
+    writeHotUpdate(writer: Writer, moduleList: BuildModule[], baseUrl: string) {
+
+        // 入口模块和已提升的模块没有独立的模块包装函数，无法单独替换。
+        if (this.target !== ModuleTarget.tpack || moduleList.some(module => module === this || isHoisted(module, this))) {
+            return false;
+        }
+
+        for (const module of moduleList) {
+            this.writeDefine(writer, module, true);
+        }
+        writer.write(`\n\n__tpack__.hotUpdate(${JSON.stringify(baseUrl)});`);
+        return true;
+    }
+
+    /**
+     * 写入一个 AMD 具名模块。
+     * @param writer 目标输出器。
+     * @param module 要写入的模块。
+     */
+    protected writeAmdModule(writer: Writer, module: BuildModule) {
+
+        // AMD 模块本身已包含 define()，解析时已补充模块名。
+        if ((module as JsModule).amd) {
+            writer.write('\n\n');
+            super.writeModule(writer, module);
+            return;
+        }
+
+        // CommonJS 模块需提前声明依赖，以便同步 require() 时依赖已载入。
+        let deps = ["require", "exports", "module"];
+        if (module.requires) {
+            for (let i = 0; i < module.requires.length; i++) {
+                if (!this.isSkipped(module.requires[i], writer.file.webModule)) {
+                    deps.push(getAmdId(module.requires[i]));
+                }
+            }
+        }
+
+        writer.write(`\n\ndefine(${JSON.stringify(getAmdId(module))}, ${JSON.stringify(deps)}, `);
+        writer.indentString = this.options.output && this.options.output.sourcePrefix != null ? this.options.output.sourcePrefix : "\t";
+        writer.write('function(require, exports, module) {\n');
+        this.writeModuleBody(writer, module);
+        writer.indentString = "";
+        writer.write(`\n});`);
+    }
+
+    /**
+     * 写入模块包装函数的主体。
+     * @param writer 目标输出器。
+     * @param module 要写入的模块。
+     */
+    protected writeModuleBody(writer: Writer, module: BuildModule) {
+        switch (module.type) {
+            case ModuleType.js:
+                super.writeModule(writer, module, module instanceof JsModule ? module.getShakenReplacements(writer.file.webModule) : module.replacements);
+                break;
+            case ModuleType.css:
+                if (this.target === ModuleTarget.tpack) {
+                    writer.write(`module.exports = __tpack__.insertStyle(${JSON.stringify(module.file.content)}, module);`);
+                } else {
+                    writer.write(`var style = document.createElement("style");\n(document.head || document.getElementsByTagName("head")[0]).appendChild(style);\nmodule.exports = style.innerHTML = ${JSON.stringify(module.file.content)};`);
+                }
+                break;
+            case ModuleType.json:
+                writer.write(`module.exports = `);
+                module.write(writer);
+                writer.write(`;`);
+                break;
+            default:
+                writer.write(`module.exports = ${JSON.stringify(module.file.content)};`);
+                break;
+        }
+    }
+
+}
+
+/**
+ * 表示 JS 模块的配置。
+ */
+export interface JsOptions extends ModuleOptions {
+
+    /**
+     * 解析 JS 的配置。
+     */
+    js: {
+
+        /**
+         * 是否解析 `require`。
+         */
+        require?: false | {
+
+            /**
+             * 是否将 `require(url, callback)` 和 `import(url)` 异步依赖的模块生成为独立的分包。
+             * @default true
+             */
+            async?: boolean;
+
+            /**
+             * 分包的保存地址。可以是相对于被异步依赖模块的地址或返回地址的函数。
+             * @default 被异步依赖模块同目录下的 *.chunk.js
+             */
+            chunk?: string | ((file: BuildFile) => string);
+
+            /**
+             * 以库方式导出入口模块时使用的库名。设置后入口模块的导出对象将按 *libraryTarget* 导出。
+             */
+            library?: string;
+
+            /**
+             * 导出库的方式。可能的值有：
+             * - var: var Library = xxx
+             * - this: this["Library"] = xxx
+             * - commonjs: exports["Library"] = xxx
+             * - commonjs2: module.exports = xxx
+             * - amd: define("Library", [], function () { return xxx; })
+             * - umd: 同时支持 commonjs2、amd 和全局变量
+             * @default "var"
+             */
+            libraryTarget?: "var" | "this" | "commonjs" | "commonjs2" | "amd" | "umd";
+
+            /**
+             * 是否启用模块热替换。启用后模块可通过 `module.hot` 接受更新，样式模块总是直接替换。
+             * @default 使用 Packer.serve() 并设置 hot 时为 true，否则为 false
+             */
+            hot?: boolean;
+
+            ///**
+            // * 在异步加载模块时，是否追加 cross-orign 属性。
+            // * @see https://developer.mozilla.org/en/docs/Web/HTML/Element/script#attr-crossorigin
+            // */
+            //crossOriginLoading?: boolean,
+
+        },
+
+        /**
+         * 是否解析 ES6 模块的 `import` 和 `export`。
+         * @default true
+         */
+        esModule?: boolean;
+
+        /**
+         * 是否删除 ES6 模块中未被使用的导出声明。所在包的 package.json 中 sideEffects 为 false 的模块在导出项均未被使用时不再打包。
+         * @default true
+         */
+        treeShaking?: boolean;
+
+        /**
+         * 是否将可静态分析的 ES6 模块提升到入口模块的作用域内，以减少模块包装函数和运行时查找。仅在目标为 tpack 时有效。
+         * @default false
+         */
+        scopeHoisting?: boolean;
+
+        /**
+         * 是否解析 AMD 模块的 `define([...], factory)`。
+         * @default true
+         */
+        define?: boolean;
+
+        /**
+         * 是否计算常量条件（如 `if (false)`、`"production" !== "production" && ...`、`DEBUG ? a : b`）并删除不会执行的分支。删除的分支内的依赖不会被打包，var 声明的变量会保留声明；包含函数声明的 if 分支不会被删除。
+         * @default true
+         */
+        constantFolding?: boolean;
+
+        /**
+         * 在编译时替换为常量的全局表达式。
+         * @remark
+         * 如设置为 `{"process.env.NODE_ENV": "production", __DEV__: false}` 时，代码中的 `process.env.NODE_ENV` 会被替换为 `"production"`，且不再因此引入 process 模块。
+         * 设置为表达式数组（如 `["process.env.NODE_ENV", "VERSION"]`）时，替换为 define 配置和 #define 中同名宏的值，未定义的宏不替换。
+         * 当前模块内声明的同名变量（如局部变量和参数）、被赋值的表达式和属性名不会被替换。
+         */
+        globals?: string[] | { [expression: string]: string | number | boolean | null | ((file: BuildFile) => string | number | boolean | null) };
+
+        /**
+         * 提取多个入口模块公共依赖的配置。提取的模块会保存到独立的公共模块，并从各入口模块排除。
+         */
+        common?: {
+
+            /**
+             * 公共模块的保存地址。路径为相对于 tpack.basePath 的相对路径。
+             */
+            path: string;
+
+            /**
+             * 至少被多少个入口模块依赖时提取。
+             * @default 2
+             */
+            minEntries?: number;
+
+            /**
+             * 无论被多少个入口模块依赖都提取的模块。可以是通配符（如 "node_modules"）、正则表达式或自定义函数。
+             */
+            test?: string | RegExp | ((module: BuildModule) => boolean);
+
+        };
+
+        /**
+         * 指示如何解析代码内关键字。
+         */
+        keyword?: {
+
+            /**
+             * 全局模块。
+             */
+            global?: boolean;
+
+            /**
+             * process 模块。
+             */
+            process?: boolean;
+
+            /**
+             * Buffer 模块。
+             */
+            Buffer?: boolean;
+
+            /**
+             * __filename 模块。
+             */
+            __filename?: boolean;
+
+            /**
+             * __dirname 模块。
+             */
+            __dirname?: boolean;
+
+            /**
+             * setImmediate 模块。
+             */
+            setImmediate?: boolean;
+
+            /**
+             * Node 内置模块。
+             */
+            native?: boolean;
+
+        };
+
+    }
+
+}
+
+/**
+ * 存储加载器源码。
+ */
+var loader: string;
+
+/**
+ * 获取加载器源码。
+ * @return 返回加载器源码。
+ */
+function getLoader() {
+    return loader || (loader = FS.readFileSync(require.resolve("../loaders/require.js"), "utf-8"));
+}
+
+/**
+ * 获取以库方式导出时使用的库名。
+ * @param options 模块的配置。
+ * @returns 返回库名。如果未设置库名或库名不能用于 *libraryTarget* 则返回 null，此时不生成库包装代码。
+ */
+function getLibrary(options: JsOptions) {
+    let require = options.js && options.js.require;
+    if (!require || require.library == null) return null;
+    switch (require.libraryTarget) {
+        case "commonjs2":
+        case "amd":
+            return require.library;
+        case "this":
+        case "commonjs":
+        case "umd":
+            return require.library ? require.library : null;
+        default:
+            return /^[a-zA-Z_$][\w$]*$/.test(require.library) ? require.library : null;
+    }
+}
+
+/**
+ * 存储各包（入口模块或分包对应的模块）已载入的模块。
+ */
+var loadedModules = new WeakMap<BuildModule, BuildModule[]>();
+
+/**
+ * 获取载入指定模块的分包前一定已载入的模块。
+ * @param module 被异步依赖的模块。
+ * @returns 返回所有异步依赖该模块的模块共同依赖或排除的模块。执行这些模块时，其依赖和排除的模块都已载入。
+ */
+function getChunkLoaded(module: JsModule) {
+    let result: BuildModule[];
+    if (module.dependents) {
+        for (let i = 0; i < module.dependents.length; i++) {
+            let dependent = module.dependents[i] as JsModule;
+            if (!dependent.asyncRequires || dependent.asyncRequires.indexOf(module) < 0) continue;
+            let loaded = dependent.getAllRequires().concat(dependent.getAllExternals());
+            result = result ? result.filter(m => loaded.indexOf(m) >= 0) : loaded;
+        }
+    }
+    return result || [];
+}
+
+/**
+ * 获取异步依赖指定模块时实际请求的文件。
+ * @param bundle 正在写入的包对应的模块。
+ * @param module 异步依赖的模块。
+ * @param target 模块对应的分包文件。
+ * @returns 如果包已载入模块则返回模块本身的文件，否则返回分包文件。
+ */
+function getAsyncTarget(bundle: BuildModule, module: BuildModule, target: BuildFile) {
+    let loaded = loadedModules.get(bundle);
+    return loaded && loaded.indexOf(module) >= 0 ? module.file : target;
+}
+
+/**
+ * 获取指定模块打包为 AMD 具名模块时使用的模块名。
+ * @param module 要处理的模块。
+ * @return 返回模块名。
+ */
+function getAmdId(module: BuildModule) {
+    return module.file.srcName.replace(/\\/g, "/").replace(/\.js$/i, "");
+}
+
+/**
+ * 遍历 import/export 语句中 `{ a, b as c }` 部分的每一项。
+ * @param specifiers 要遍历的列表。
+ * @param callback 遍历的回调函数。参数为原名和别名。
+ */
+function forEachSpecifier(specifiers: string, callback: (name: string, alias: string) => void) {
+    specifiers.replace(/([\w$]+)(?:\s+as\s+([\w$]+))?/g, (_: string, name: string, alias: string) => {
+        callback(name, alias || name);
+        return "";
+    });
+}
+
+/**
+ * 获取访问指定对象成员的表达式。
+ * @param object 对象表达式。
+ * @param name 成员名。
+ * @return 返回表达式。
+ */
+function getMember(object: string, name: string) {
+    return name === "default" ? `${object}["default"]` : `${object}.${name}`;
+}
 
+/**
+ * 获取 var/let/const/function/class 声明的所有变量名。
+ * @param content 源码。
+ * @param index 声明关键字在源码中的位置。
+ * @param tokens 源码的标记列表。如果提供则支持解构声明（如 `const { a } = b`）。
+ * @return 返回变量名列表。
+ */
+function getDeclarationNames(content: string, index: number, tokens?: Token[]) {
+    let keyword = /^(?:async\s+)?(var|let|const|function|class)\b\s*\*?\s*([\w$]+)?/.exec(content.substr(index, 256));
+    if (!keyword) return [];
+    if (keyword[2] == null) {
+        if (!tokens || keyword[1] === "function" || keyword[1] === "class") return [];
+        let result: string[] = [];
+        let keywordIndex = findToken(tokens, index);
+        if (keywordIndex >= 0) collectDeclaration(content, tokens, keywordIndex, result);
+        return result;
     }
+    if (keyword[1] === "function" || keyword[1] === "class") return [keyword[2]];
 
+    // 查找同一声明中以逗号分隔的其它变量。
+    let result = [keyword[2]];
+    let depth = 0;
+    for (let i = index + keyword[0].length; i < content.length; i++) {
+        let c = content.charCodeAt(i);
+        switch (c) {
+            case 40/*(*/:
+            case 91/*[*/:
+            case 123/*{*/:
+                depth++;
+                break;
+            case 41/*)*/:
+            case 93/*]*/:
+            case 125/*}*/:
+                if (--depth < 0) return result;
+                break;
+            case 34/*"*/:
+            case 39/*'*/:
+            case 96/*`*/:
+                while (++i < content.length && content.charCodeAt(i) !== c) {
+                    if (content.charCodeAt(i) === 92/*\*/) i++;
+                }
+                break;
+            case 59/*;*/:
+                if (depth === 0) return result;
+                break;
+            case 44/*,*/:
+                if (depth === 0) {
+                    let name = /^\s*([\w$]+)/.exec(content.substr(i + 1, 256));
+                    if (name) result.push(name[1]);
+                }
+                break;
+        }
+    }
+    return result;
 }
 
 /**
- * 存储加载器源码。
+ * 遍历源码中（字符串、模板字符串和注释除外）出现的指定标识符。属性访问（如 `a.name`）中的成员名不会被遍历。
+ * @param content 源码。
+ * @param names 要查找的标识符。
+ * @param callback 遍历的回调函数。参数为标识符和标识符在源码中的位置。
+ * @param tokens 源码的标记列表。如果未提供则重新解析。
+ * @param scopes 每个标记所在的作用域。如果提供则跳过在内层作用域重新声明的同名变量（包括声明本身）。
  */
-var loader: string;
+function forEachIdentifier(content: string, names: string[], callback: (name: string, index: number) => void, tokens?: Token[], scopes?: Scope[]) {
+    let lookup: { [name: string]: boolean } = { __proto__: null };
+    for (let i = 0; i < names.length; i++) {
+        lookup[names[i]] = true;
+    }
+    tokens = tokens || tokenize(content);
+    let prev: Token = null;
+    for (let i = 0; i < tokens.length; i++) {
+        let token = tokens[i];
+        if (token.type === TokenType.singleComment || token.type === TokenType.multiComment) continue;
+        if (token.type === TokenType.identifier && (!prev || !isPunctuator(content, prev, "."))) {
+            let name = content.substring(token.start, token.end);
+            if (lookup[name]) {
+                let scope = scopes && resolveScope(scopes[i], name);
+                if (!scope || !scope.parent) callback(name, token.start);
+            }
+        }
+        prev = token;
+    }
+}
 
 /**
- * 获取加载器源码。
- * @return 返回加载器源码。
+ * 表示一个变量作用域。
  */
-function getLoader() {
-    return loader || (loader = FS.readFileSync(require.resolve("../loader/require.js"), "utf-8"));
+interface Scope {
+
+    /**
+     * 父作用域。顶级作用域的父作用域为 null。
+     */
+    parent: Scope;
+
+    /**
+     * 是否是函数作用域（包括顶级作用域）。var 声明的变量属于最近的函数作用域。
+     */
+    function: boolean;
+
+    /**
+     * 作用域内声明的变量名。
+     */
+    names: { [name: string]: boolean };
+
+}
+
+/**
+ * 括号的类型。
+ */
+const enum BracketKind {
+
+    /**
+     * 代码块或函数主体。
+     */
+    block,
+
+    /**
+     * 对象字面量或解构模式。
+     */
+    object,
+
+    /**
+     * 类主体。
+     */
+    class,
+
+    /**
+     * 圆括号、方括号或箭头函数的表达式主体。
+     */
+    paren,
+
+}
+
+/**
+ * 分析源码中的变量作用域。
+ * @param content 源码。
+ * @param tokens 源码的标记列表。
+ * @param methods 用于记录类和对象字面量中方法名的标记索引的数组。
+ * @returns 返回每个标记所在的作用域。
+ * @remark 仅用于判断变量是否在内层作用域被重新声明，只处理常见的声明形式。
+ */
+function analyzeScopes(content: string, tokens: Token[], methods?: boolean[]) {
+
+    // 预先匹配所有括号。
+    let pairs: number[] = new Array(tokens.length);
+    let opens: number[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+        if (tokens[i].type !== TokenType.punctuator) continue;
+        switch (content.charCodeAt(tokens[i].start)) {
+            case 40/*(*/:
+            case 91/*[*/:
+            case 123/*{*/:
+                opens.push(i);
+                break;
+            case 41/*)*/:
+            case 93/*]*/:
+            case 125/*}*/:
+                if (opens.length) {
+                    let open = opens.pop();
+                    pairs[open] = i;
+                    pairs[i] = open;
+                }
+                break;
+        }
+    }
+
+    let root: Scope = { parent: null, function: true, names: { __proto__: null } };
+    let result: Scope[] = new Array(tokens.length);
+    let stack: { scope: Scope, kind: BracketKind, end: number }[] = [{ scope: root, kind: BracketKind.block, end: tokens.length }];
+
+    // 在函数参数、catch 参数和 for 语句开始的作用域。键为作用域起始标记的索引。
+    let starts: { scope: Scope, end: number }[] = [];
+
+    // 函数和 catch 的主体不再创建新的作用域。
+    let bodies: boolean[] = [];
+
+    // 类主体中的方法按方法解析。
+    let classBodies: boolean[] = [];
+
+    // 函数和类表达式的名称属于其自身的作用域。
+    let owners: Scope[] = [];
+
+    // 已创建的作用域及其起始标记的索引，用于箭头函数回溯参数。
+    let created: { scope: Scope, index: number }[] = [];
+    let createScope = (parent: Scope, isFunction: boolean, index: number) => {
+        let scope: Scope = { parent, function: isFunction, names: { __proto__: null } };
+        created.push({ scope, index });
+        return scope;
+    };
+
+    // 收集函数参数列表中的变量。
+    let addParameters = (scope: Scope, open: number, close: number) => {
+        for (let i = nextToken(tokens, open); i >= 0 && i < close; i = nextToken(tokens, i)) {
+            if (isPunctuator(content, tokens[i], ",")) continue;
+            if (isPunctuator(content, tokens[i], "...")) i = nextToken(tokens, i);
+            let names: string[] = [];
+            i = collectBinding(content, tokens, i, names);
+            if (i < 0) break;
+            for (const name of names) scope.names[name] = true;
+        }
+    };
+
+    // 记录函数的参数和主体。
+    let addFunction = (scope: Scope, open: number) => {
+        if (open < 0 || !isPunctuator(content, tokens[open], "(")) return;
+        let close = pairs[open];
+        if (close == null) return;
+        let body = nextToken(tokens, close);
+        if (body < 0 || !isPunctuator(content, tokens[body], "{") || pairs[body] == null) return;
+        addParameters(scope, open, close);
+        starts[open] = { scope, end: pairs[body] };
+        bodies[body] = true;
+    };
+
+    let prev = -1;
+    let prevPrev = -1;
+    for (let i = 0; i < tokens.length; i++) {
+        let token = tokens[i];
+        if (token.type === TokenType.singleComment || token.type === TokenType.multiComment) continue;
+        while (stack[stack.length - 1].end < i) stack.pop();
+        if (starts[i]) stack.push({ scope: starts[i].scope, kind: BracketKind.paren, end: starts[i].end });
+        let top = stack[stack.length - 1];
+        let scope = top.scope;
+        result[i] = owners[i] || scope;
+
+        let prevToken = prev >= 0 ? tokens[prev] : null;
+        let prevValue = prevToken ? content.substring(prevToken.start, prevToken.end) : "";
+        let next = nextToken(tokens, i);
+
+        if (token.type === TokenType.punctuator) {
+            switch (content.charCodeAt(token.start)) {
+                case 40/*(*/:
+                case 91/*[*/:
+                    stack.push({ scope, kind: BracketKind.paren, end: pairs[i] != null ? pairs[i] : tokens.length });
+                    break;
+                case 123/*{*/:
+                    let end = pairs[i] != null ? pairs[i] : tokens.length;
+                    if (bodies[i]) {
+                        stack.push({ scope, kind: BracketKind.block, end });
+                    } else if (classBodies[i]) {
+                        stack.push({ scope, kind: BracketKind.class, end });
+                    } else if (prevToken && (prevToken.type === TokenType.punctuator ? /^(?:[(\[,=?!&|+\-*\/%<>~^]|\.\.\.)$/.test(prevValue) || prevValue === ":" && top.kind === BracketKind.object : prevToken.type === TokenType.template || prevToken.type === TokenType.identifier && /^(?:return|typeof|in|of|yield|await|void|delete|throw|new|instanceof|default|var|let|const)$/.test(prevValue))) {
+                        stack.push({ scope, kind: BracketKind.object, end });
+                    } else {
+                        stack.push({ scope: createScope(scope, false, i), kind: BracketKind.block, end });
+                    }
+                    break;
+                case 61/*=*/:
+
+                    // (a, b) => ..., a => ...
+                    if (next >= 0 && tokens[next].start === token.end && isPunctuator(content, tokens[next], ">") && prev >= 0) {
+                        let open = isPunctuator(content, prevToken, ")") ? pairs[prev] : prevToken.type === TokenType.identifier ? prev : -1;
+                        let body = nextToken(tokens, next);
+                        if (open == null || open < 0 || body < 0) break;
+                        let arrow = createScope(scope, true, open);
+                        if (open === prev) {
+                            arrow.names[prevValue] = true;
+                        } else {
+                            addParameters(arrow, open, prev);
+                        }
+
+                        // 参数已按外层作用域处理，需要回溯。
+                        for (let j = open; j <= i; j++) {
+                            if (result[j] === scope) result[j] = arrow;
+                        }
+                        for (let j = created.length - 2; j >= 0 && created[j].index >= open; j--) {
+                            if (created[j].scope.parent === scope) created[j].scope.parent = arrow;
+                        }
+
+                        let end: number;
+                        if (isPunctuator(content, tokens[body], "{")) {
+                            end = pairs[body] != null ? pairs[body] : tokens.length;
+                            bodies[body] = true;
+                        } else {
+                            end = expressionEnd(content, tokens, body, 0);
+                        }
+                        stack.push({ scope: arrow, kind: BracketKind.paren, end: end < 0 ? i : end });
+                    }
+                    break;
+            }
+        } else if (token.type === TokenType.identifier && (!prevToken || !isPunctuator(content, prevToken, "."))) {
+            let value = content.substring(token.start, token.end);
+
+            // 类和对象字面量中的方法：a() {}, get a() {}
+            if ((top.kind === BracketKind.class || top.kind === BracketKind.object) && next >= 0 && isPunctuator(content, tokens[next], "(") && (prevToken && prevToken.type === TokenType.identifier ? /^(?:get|set|static|async)$/.test(prevValue) : !prevToken || /^[{,;}*]$/.test(prevValue) || top.kind === BracketKind.class && token.newLine && prevToken.type !== TokenType.punctuator)) {
+                addFunction(createScope(scope, true, next), next);
+                if (methods) methods[i] = true;
+            } else {
+                switch (value) {
+                    case "function":
+                    case "class":
+                        let declaration = isDeclarationStart(content, prevValue === "async" ? (prevPrev >= 0 ? tokens[prevPrev] : null) : prevToken);
+                        let name = next;
+                        if (value === "function" && name >= 0 && isPunctuator(content, tokens[name], "*")) name = nextToken(tokens, name);
+                        if (name < 0) break;
+                        let nameValue = tokens[name].type === TokenType.identifier ? content.substring(tokens[name].start, tokens[name].end) : null;
+                        if (nameValue === "extends") nameValue = null;
+                        let own = createScope(scope, value === "function", i);
+                        if (nameValue != null) {
+                            if (declaration) {
+                                scope.names[nameValue] = true;
+                            } else {
+                                own.names[nameValue] = true;
+                                owners[name] = own;
+                            }
+                        }
+                        if (value === "function") {
+                            addFunction(own, nameValue != null ? nextToken(tokens, name) : name);
+                        } else {
+
+                            // 查找类主体，跳过 extends 后的表达式。
+                            for (let j = nameValue != null ? nextToken(tokens, name) : name; j >= 0; j = nextToken(tokens, j)) {
+                                if (isPunctuator(content, tokens[j], "{")) {
+                                    classBodies[j] = true;
+                                    if (nameValue != null && !declaration) starts[j] = { scope: own, end: pairs[j] != null ? pairs[j] : tokens.length };
+                                    break;
+                                }
+                                if (pairs[j] != null && pairs[j] > j) j = pairs[j];
+                            }
+                        }
+                        break;
+                    case "catch":
+                        if (next >= 0 && isPunctuator(content, tokens[next], "(")) {
+                            addFunction(createScope(scope, false, next), next);
+                        }
+                        break;
+                    case "for":
+                        if (next >= 0 && isPunctuator(content, tokens[next], "(") && pairs[next] != null) {
+                            let keyword = nextToken(tokens, next);
+                            if (keyword >= 0 && /^(?:let|const)$/.test(content.substring(tokens[keyword].start, tokens[keyword].end))) {
+                                let body = nextToken(tokens, pairs[next]);
+                                let end = body >= 0 && isPunctuator(content, tokens[body], "{") ? pairs[body] : statementEnd(content, tokens, body);
+                                starts[next] = { scope: createScope(scope, false, next), end: end == null || end < 0 ? pairs[next] : end };
+                            }
+                        }
+                        break;
+                    case "var":
+                    case "let":
+                    case "const":
+                        if (next < 0 || value === "let" && tokens[next].type !== TokenType.identifier && !isPunctuator(content, tokens[next], "[") && !isPunctuator(content, tokens[next], "{")) break;
+                        let target = scope;
+                        if (value === "var") {
+                            while (!target.function) target = target.parent;
+                        }
+                        let names: string[] = [];
+                        collectDeclaration(content, tokens, i, names);
+                        for (const name of names) target.names[name] = true;
+                        break;
+                }
+            }
+        }
+
+        prevPrev = prev;
+        prev = i;
+    }
+    return result;
+}
+
+/**
+ * 判断指定标记之后是否是一个声明语句的开头。
+ * @param content 源码。
+ * @param prev 声明前的标记（注释除外）。
+ */
+function isDeclarationStart(content: string, prev: Token) {
+    return !prev || isPunctuator(content, prev, ";") || isPunctuator(content, prev, "{") || isPunctuator(content, prev, "}") || prev.type === TokenType.identifier && /^(?:export|default)$/.test(content.substring(prev.start, prev.end));
+}
+
+/**
+ * 获取指定变量所在的作用域。
+ * @param scope 变量出现位置所在的作用域。
+ * @param name 变量名。
+ * @returns 返回声明变量的作用域。如果变量未声明（全局变量）则返回 null。
+ */
+function resolveScope(scope: Scope, name: string) {
+    while (scope && !scope.names[name]) {
+        scope = scope.parent;
+    }
+    return scope;
+}
+
+/**
+ * 获取指定作用域所属的函数作用域。
+ * @param scope 要获取的作用域。
+ */
+function getFunctionScope(scope: Scope) {
+    while (!scope.function) {
+        scope = scope.parent;
+    }
+    return scope;
+}
+
+/**
+ * 收集 var/let/const 声明的所有变量名。
+ * @param content 源码。
+ * @param tokens 所有标记。
+ * @param index 声明关键字的标记索引。
+ * @param names 用于存放变量名的数组。
+ * @returns 返回声明最后一个标记的索引。
+ */
+function collectDeclaration(content: string, tokens: Token[], index: number, names: string[]) {
+    let end = index;
+    for (let i = nextToken(tokens, index); i >= 0; i = nextToken(tokens, i)) {
+        end = collectBinding(content, tokens, i, names);
+        if (end < 0) return index;
+        i = nextToken(tokens, end);
+        if (i < 0 || !isPunctuator(content, tokens[i], ",")) break;
+    }
+    return end;
+}
+
+/**
+ * 收集绑定模式（如 `a`、`{ a, b: [c] } = {}`）声明的所有变量名。
+ * @param content 源码。
+ * @param tokens 所有标记。
+ * @param index 模式首个标记的索引。
+ * @param names 用于存放变量名的数组。
+ * @returns 返回模式（包括默认值）最后一个标记的索引。如果不是绑定模式则返回 -1。
+ */
+function collectBinding(content: string, tokens: Token[], index: number, names: string[]) {
+    let token = tokens[index];
+    let end = -1;
+    if (token.type === TokenType.identifier) {
+        names.push(content.substring(token.start, token.end));
+        end = index;
+    } else if (isPunctuator(content, token, "[") || isPunctuator(content, token, "{")) {
+        end = matchingToken(content, tokens, index);
+        if (end < 0) return -1;
+        let object = isPunctuator(content, token, "{");
+        for (let i = nextToken(tokens, index); i >= 0 && i < end; i = nextToken(tokens, i)) {
+            if (isPunctuator(content, tokens[i], ",")) continue;
+            if (isPunctuator(content, tokens[i], "...")) {
+                i = nextToken(tokens, i);
+            } else if (object) {
+
+                // { key: pattern }, { [key]: pattern }
+                let key = isPunctuator(content, tokens[i], "[") ? matchingToken(content, tokens, i) : i;
+                let colon = nextToken(tokens, key);
+                if (colon >= 0 && isPunctuator(content, tokens[colon], ":")) i = nextToken(tokens, colon);
+            }
+            if (i < 0 || i >= end) break;
+            let last = collectBinding(content, tokens, i, names);
+            if (last < 0) return -1;
+            i = last;
+        }
+    } else {
+        return -1;
+    }
+
+    // 跳过默认值。
+    let next = nextToken(tokens, end);
+    if (next >= 0 && isPunctuator(content, tokens[next], "=")) {
+        let value = nextToken(tokens, next);
+        let valueEnd = value >= 0 && !isPunctuator(content, tokens[value], "=") && !isPunctuator(content, tokens[value], ">") ? expressionEnd(content, tokens, value, 0) : -1;
+        if (valueEnd >= 0) end = valueEnd;
+    }
+    return end;
+}
+
+/**
+ * 判断指定的标记是否是指定的符号。
+ * @param content 源码。
+ * @param token 要判断的标记。
+ * @param value 符号内容。
+ */
+function isPunctuator(content: string, token: Token, value: string) {
+    return token.type === TokenType.punctuator && token.end - token.start === value.length && content.startsWith(value, token.start);
+}
+
+/**
+ * 查找从指定位置开始的标记。
+ * @param tokens 所有标记。
+ * @param index 标记在源码中的起始位置。
+ * @returns 返回标记的索引。如果不存在则返回 -1。
+ */
+function findToken(tokens: Token[], index: number) {
+    let start = 0;
+    let end = tokens.length - 1;
+    while (start <= end) {
+        let middle = (start + end) >> 1;
+        if (tokens[middle].start < index) {
+            start = middle + 1;
+        } else if (tokens[middle].start > index) {
+            end = middle - 1;
+        } else {
+            return middle;
+        }
+    }
+    return -1;
+}
+
+/**
+ * 获取下一个非注释标记的索引。
+ * @param tokens 所有标记。
+ * @param index 当前标记的索引。
+ * @returns 如果不存在则返回 -1。
+ */
+function nextToken(tokens: Token[], index: number) {
+    if (index < 0) return -1;
+    while (++index < tokens.length) {
+        if (tokens[index].type !== TokenType.singleComment && tokens[index].type !== TokenType.multiComment) {
+            return index;
+        }
+    }
+    return -1;
+}
+
+/**
+ * 获取指定位置前的最后一个标记的索引。
+ * @param tokens 所有标记。
+ * @param index 开始查找的标记索引。
+ * @param end 结束位置。
+ */
+function lastTokenBefore(tokens: Token[], index: number, end: number) {
+    while (index + 1 < tokens.length && tokens[index + 1].end <= end) {
+        index++;
+    }
+    return index;
+}
+
+/**
+ * 获取只包含字符串的数组字面量（如 `["a", "b"]`）的结束标记索引。
+ * @param content 源码。
+ * @param tokens 所有标记。
+ * @param index `[` 标记的索引。
+ * @returns 返回 `]` 标记的索引。如果数组包含字符串以外的内容则返回 -1。
+ */
+function stringArrayEnd(content: string, tokens: Token[], index: number) {
+    while ((index = nextToken(tokens, index)) >= 0) {
+        if (isPunctuator(content, tokens[index], "]")) return index;
+        if (tokens[index].type !== TokenType.string && !isPunctuator(content, tokens[index], ",")) break;
+    }
+    return -1;
+}
+
+/**
+ * 匹配 import 语句的正则表达式。
+ */
+var importStatement = /import\b\s*(?:[\w$]+\s*,?\s*)?(?:\*\s*as\s+[\w$]+\s*|\{[^}]*\}\s*)?(?:from\s*)?(?:'(?:[^\\'\n\r\f]|\\[\s\S])*'|"(?:[^\\"\n\f]|\\[\s\S])*")\s*;?/y;
+
+/**
+ * 匹配 export 语句开头的正则表达式。
+ */
+var exportStatement = /export\b\s*(?:default\b|var\b|let\b|const\b|function\b|class\b|async\b|\*\s*from\s*(?:'(?:[^\\'\n\r\f]|\\[\s\S])*'|"(?:[^\\"\n\f]|\\[\s\S])*")\s*;?|\{[^}]*\}(?:\s*from\s*(?:'(?:[^\\'\n\r\f]|\\[\s\S])*'|"(?:[^\\"\n\f]|\\[\s\S])*"))?\s*;?)/y;
+
+/**
+ * 获取 var/let/const/function/class 声明的结束位置。
+ * @param content 源码。
+ * @param index 声明关键字在源码中的位置。
+ * @return 返回结束位置（不包括结束位置）。
+ */
+function getDeclarationEnd(content: string, index: number) {
+    let statement = !/^(?:async\s+)?(?:function|class)\b/.test(content.substr(index, 16));
+    let depth = 0;
+    for (let i = index; i < content.length; i++) {
+        let c = content.charCodeAt(i);
+        switch (c) {
+            case 40/*(*/:
+            case 91/*[*/:
+            case 123/*{*/:
+                depth++;
+                break;
+            case 41/*)*/:
+            case 93/*]*/:
+                if (--depth < 0) return i;
+                break;
+            case 125/*}*/:
+                if (--depth < 0) return i;
+
+                // function/class 声明在主体结束时结束。
+                if (depth === 0 && !statement) return i + 1;
+                break;
+            case 34/*"*/:
+            case 39/*'*/:
+            case 96/*`*/:
+                while (++i < content.length && content.charCodeAt(i) !== c) {
+                    if (content.charCodeAt(i) === 92/*\*/) i++;
+                }
+                break;
+            case 47/*/*/:
+                if (content.charCodeAt(i + 1) === 47/*/*/) {
+                    while (++i < content.length && content.charCodeAt(i + 1) !== 10/*\n*/);
+                } else if (content.charCodeAt(i + 1) === 42/***/) {
+                    i = content.indexOf("*/", i + 2);
+                    if (i < 0) return content.length;
+                    i++;
+                }
+                break;
+            case 59/*;*/:
+                if (depth === 0 && statement) return i + 1;
+                break;
+            case 10/*\n*/:
+                // 行末和下一行开头都不是运算符时，换行表示语句结束。
+                if (depth === 0 && statement && !/[=+\-*\/%&|^<>?:!~,.(\[]\s*$/.test(content.substring(Math.max(index, i - 64), i)) && !/^\s*(?:[=+\-*\/%&|^<>?:,.(\[`]|instanceof\b|in\b)/.test(content.substr(i + 1, 64))) {
+                    return i + 1;
+                }
+                break;
+        }
+    }
+    return content.length;
+}
+
+/**
+ * 存储各文件夹所在包的 sideEffects 配置。
+ */
+var sideEffectsCache: { [dir: string]: { dir: string, sideEffects: boolean | string[] } } = { __proto__: null };
+
+/**
+ * 判断指定的文件是否有副作用。
+ * @param path 要判断的文件路径。
+ * @returns 如果所在包的 package.json 中 sideEffects 为 false 或未匹配该文件则返回 false，否则返回 true。
+ */
+function hasSideEffects(path: string) {
+    let config = getSideEffects(Path.dirname(path));
+    if (!config || !Array.isArray(config.sideEffects)) return !config || config.sideEffects !== false;
+    let relative = Path.relative(config.dir, path).replace(/\\/g, "/");
+    return (config.sideEffects as string[]).some(pattern => {
+        pattern = pattern.replace(/^\.\//, "");
+        let re = new RegExp("^" + pattern.replace(/[.+^$()|{}\[\]\\]/g, "\\$&").replace(/\*\*\/?|\*|\?/g, all => all === "?" ? "[^/]" : all === "*" ? "[^/]*" : ".*") + "$");
+        return re.test(pattern.indexOf("/") < 0 ? Path.basename(path) : relative);
+    });
+}
+
+/**
+ * 获取指定文件夹所在包的 sideEffects 配置。
+ * @param dir 要搜索的文件夹。
+ * @returns 返回包含包文件夹和配置的对象。如果文件夹不在任何包内则返回 null。
+ */
+function getSideEffects(dir: string) {
+    if (dir in sideEffectsCache) return sideEffectsCache[dir];
+    let result = null;
+    let packagePath = Path.join(dir, "package.json");
+    if (FS.existsSync(packagePath)) {
+        let packageObj;
+        try {
+            packageObj = JSON.parse(FS.readFileSync(packagePath, "utf-8"));
+        } catch (e) { }
+        result = { dir, sideEffects: packageObj && packageObj.sideEffects };
+    } else {
+        let parent = Path.dirname(dir);
+        if (parent.length !== dir.length) result = getSideEffects(parent);
+    }
+    return sideEffectsCache[dir] = result;
+}
+
+/**
+ * 判断指定位置的标识符是否是属性名（如 `{ name: value }` 或方法定义 `name() {}`）。
+ * @param content 源码。
+ * @param index 标识符在源码中的位置。
+ * @param length 标识符的长度。
+ */
+function isPropertyName(content: string, index: number, length: number) {
+    let before = content.substring(Math.max(0, index - 64), index);
+    let after = content.substr(index + length, 256);
+    return /^\s*:/.test(after) && /[{,]\s*$/.test(before) ||
+        /^\s*\([^()]*\)\s*\{/.test(after) && /(?:^|[{,;}\n])\s*(?:(?:static|async|get|set)\s+)*\*?\s*$/.test(before);
+}
+
+/**
+ * 获取源码中声明的所有顶级变量。
+ * @param content 源码。
+ * @return 返回变量名列表。如果存在无法分析的声明（如解构）则返回 null。
+ */
+function getTopLevelNames(content: string) {
+    let result: string[] = [];
+    let depth = 0;
+    for (let i = 0; i < content.length; i++) {
+        let c = content.charCodeAt(i);
+        switch (c) {
+            case 40/*(*/:
+            case 91/*[*/:
+            case 123/*{*/:
+                depth++;
+                break;
+            case 41/*)*/:
+            case 93/*]*/:
+            case 125/*}*/:
+                depth--;
+                break;
+            case 34/*"*/:
+            case 39/*'*/:
+            case 96/*`*/:
+                while (++i < content.length && content.charCodeAt(i) !== c) {
+                    if (content.charCodeAt(i) === 92/*\*/) i++;
+                }
+                break;
+            case 47/*/*/:
+                if (content.charCodeAt(i + 1) === 47/*/*/) {
+                    while (++i < content.length && content.charCodeAt(i + 1) !== 10/*\n*/);
+                } else if (content.charCodeAt(i + 1) === 42/***/) {
+                    i = content.indexOf("*/", i + 2);
+                    if (i < 0) return result;
+                    i++;
+                }
+                break;
+            default:
+                if (depth === 0 && (c === 118/*v*/ || c === 108/*l*/ || c === 99/*c*/ || c === 102/*f*/ || c === 97/*a*/) && !/[\w$.]/.test(content.charAt(i - 1))) {
+                    let keyword = /^(?:async\s+)?(?:var|let|const|function|class)\b\s*\*?\s*(\S)/.exec(content.substr(i, 256));
+                    if (keyword) {
+                        if (keyword[1] === "[" || keyword[1] === "{") return null;
+                        result.push(...getDeclarationNames(content, i));
+                    }
+                }
+                break;
+        }
+    }
+    return result;
+}
+
+/**
+ * 判断写入指定入口模块时指定模块是否被提升到入口模块的作用域内。
+ * @param module 要判断的模块。
+ * @param entry 正在写入的入口模块。
+ */
+function isHoisted(module: BuildModule, entry: BuildModule) {
+    return entry instanceof JsModule && entry.hoistedModules != null && entry.hoistedModules.indexOf(module as JsModule) >= 0;
+}
+
+/**
+ * 判断指定位置的标识符是否是对象字面量的简写属性（如 `{ name }`）。
+ * @param content 源码。
+ * @param index 标识符在源码中的位置。
+ * @param length 标识符的长度。
+ */
+function isShorthandProperty(content: string, index: number, length: number) {
+    if (!/[{,]\s*$/.test(content.substring(Math.max(0, index - 64), index)) || !/^\s*[,}]/.test(content.substr(index + length, 64))) {
+        return false;
+    }
+
+    // 查找所在的括号，仅 { 可能是对象字面量。
+    for (let i = index - 1, depth = 0; i >= 0; i--) {
+        switch (content.charCodeAt(i)) {
+            case 41/*)*/:
+            case 93/*]*/:
+            case 125/*}*/:
+                depth++;
+                break;
+            case 40/*(*/:
+            case 91/*[*/:
+                if (--depth < 0) return false;
+                break;
+            case 123/*{*/:
+                if (--depth < 0) {
+                    // `{` 前是运算符或 return 时是对象字面量，否则是代码块。
+                    return /(?:^|[=(,:\[?!&|+\-*%<>~^]|\breturn)\s*$/.test(content.substring(Math.max(0, i - 64), i));
+                }
+                break;
+        }
+    }
+    return false;
+}
+
+/**
+ * 获取与指定括号匹配的括号的索引。
+ * @param content 源码。
+ * @param tokens 所有标记。
+ * @param index `(`、`[` 或 `{` 的标记索引。
+ * @returns 如果不存在则返回 -1。
+ */
+function matchingToken(content: string, tokens: Token[], index: number) {
+    let depth = 0;
+    for (let i = index; i < tokens.length; i++) {
+        if (tokens[i].type !== TokenType.punctuator) continue;
+        switch (content.charCodeAt(tokens[i].start)) {
+            case 40/*(*/:
+            case 91/*[*/:
+            case 123/*{*/:
+                depth++;
+                break;
+            case 41/*)*/:
+            case 93/*]*/:
+            case 125/*}*/:
+                if (--depth === 0) return i;
+                break;
+        }
+    }
+    return -1;
+}
+
+/**
+ * 获取语句的结束标记索引。
+ * @param content 源码。
+ * @param tokens 所有标记。
+ * @param index 语句首个标记的索引。
+ * @returns 返回最后一个标记的索引。如果无法确定（如循环语句）则返回 -1。
+ */
+function statementEnd(content: string, tokens: Token[], index: number) {
+    if (index < 0) return -1;
+    let token = tokens[index];
+
+    // {...}
+    if (isPunctuator(content, token, "{")) return matchingToken(content, tokens, index);
+
+    if (token.type === TokenType.identifier) {
+        let keyword = content.substring(token.start, token.end);
+
+        // if (...) ... else ...
+        if (keyword === "if") {
+            let open = nextToken(tokens, index);
+            if (open < 0 || !isPunctuator(content, tokens[open], "(")) return -1;
+            let end = statementEnd(content, tokens, nextToken(tokens, matchingToken(content, tokens, open)));
+            let elseToken = nextToken(tokens, end);
+            if (elseToken >= 0 && tokens[elseToken].type === TokenType.identifier && content.substring(tokens[elseToken].start, tokens[elseToken].end) === "else") {
+                end = statementEnd(content, tokens, nextToken(tokens, elseToken));
+            }
+            return end;
+        }
+
+        // 其它复合语句和声明不解析。
+        if (/^(?:for|while|do|try|switch|with|function|class|async|else)$/.test(keyword) || isPunctuator(content, tokens[nextToken(tokens, index)] || token, ":")) return -1;
+    }
+
+    // 表达式、var、return 等简单语句以 ; 或换行结束。
+    let depth = 0;
+    let last = -1;
+    for (let i = index; i >= 0; i = nextToken(tokens, i)) {
+        if (depth === 0 && last >= 0 && isAutoSemicolon(content, tokens[last], tokens[i])) return last;
+        if (tokens[i].type === TokenType.punctuator) {
+            switch (content.charCodeAt(tokens[i].start)) {
+                case 40/*(*/:
+                case 91/*[*/:
+                case 123/*{*/:
+                    depth++;
+                    break;
+                case 41/*)*/:
+                case 93/*]*/:
+                case 125/*}*/:
+                    if (--depth < 0) return last;
+                    break;
+                case 59/*;*/:
+                    if (depth === 0) return i;
+                    break;
+            }
+        }
+        last = i;
+    }
+    return last;
+}
+
+/**
+ * 获取表达式的结束标记索引。
+ * @param content 源码。
+ * @param tokens 所有标记。
+ * @param index 表达式首个标记的索引。
+ * @param level 表达式的位置。0：条件运算符的分支，1：`||` 的右侧，2：`&&` 的右侧。
+ * @returns 返回最后一个标记的索引。如果表达式为空则返回 -1。
+ */
+function expressionEnd(content: string, tokens: Token[], index: number, level: number) {
+    let depth = 0;
+    let ternary = 0;
+    let last = -1;
+    for (let i = index; i >= 0; i = nextToken(tokens, i)) {
+        let token = tokens[i];
+        if (depth === 0 && last >= 0 && isAutoSemicolon(content, tokens[last], token)) return last;
+        if (token.type === TokenType.punctuator) {
+            switch (content.charCodeAt(token.start)) {
+                case 40/*(*/:
+                case 91/*[*/:
+                case 123/*{*/:
+                    depth++;
+                    break;
+                case 41/*)*/:
+                case 93/*]*/:
+                case 125/*}*/:
+                    if (--depth < 0) return last;
+                    break;
+                case 44/*,*/:
+                case 59/*;*/:
+                    if (depth === 0) return last;
+                    break;
+                case 58/*:*/:
+                    if (depth === 0 && ternary-- === 0) return last;
+                    break;
+                default:
+                    let operator = depth === 0 ? getLogicalOperator(content, token) : null;
+                    if (operator && (operator === "||" ? level >= 2 : operator !== "&&" && level >= 1)) return last;
+                    if (operator === "?") ternary++;
+                    if (operator && operator.length > 1) {
+                        last = i = nextToken(tokens, i);
+                        continue;
+                    }
+                    break;
+            }
+        }
+        last = i;
+    }
+    return last;
+}
+
+/**
+ * 判断两个相邻标记之间的换行是否会自动插入分号。
+ * @param content 源码。
+ * @param prev 换行前的标记。
+ * @param token 换行后的标记。
+ * @remark 仅用于查找语句结尾，只判断常见的情况。
+ */
+function isAutoSemicolon(content: string, prev: Token, token: Token) {
+    if (!token.newLine || token.type !== TokenType.identifier && token.type !== TokenType.string && token.type !== TokenType.number) return false;
+    switch (prev.type) {
+        case TokenType.identifier:
+            return !/^(?:typeof|void|delete|new|in|instanceof|case|var|let|const|else)$/.test(content.substring(prev.start, prev.end));
+        case TokenType.punctuator:
+            return isPunctuator(content, prev, ")") || isPunctuator(content, prev, "]") || isPunctuator(content, prev, "}") || isPunctuator(content, prev, "++") || isPunctuator(content, prev, "--");
+        case TokenType.singleComment:
+        case TokenType.multiComment:
+            return false;
+        default:
+            return true;
+    }
+}
+
+/**
+ * 获取指定标记开始的逻辑运算符。
+ * @param content 源码。
+ * @param token 要判断的标记。
+ * @returns 返回 "&&"、"||"、"??" 或 "?"（条件运算符）。如果不是逻辑运算符则返回 null。
+ */
+function getLogicalOperator(content: string, token: Token) {
+    if (token.type !== TokenType.punctuator) return null;
+    let match = /^(?:&&|\|\||\?\?|\?(?!\.\D))(?!=)/.exec(content.substr(token.start, 3));
+    return match ? match[0] : null;
+}
+
+/**
+ * 判断指定标记后是否是一个以指定逻辑运算符为最低优先级的独立表达式的开头。
+ * @param content 源码。
+ * @param prev 表达式前的标记（注释除外）。
+ * @param operator 逻辑运算符。
+ */
+function isExpressionStart(content: string, prev: Token, operator: string) {
+    if (!prev) return true;
+    let value = content.substring(prev.start, prev.end);
+    if (prev.type === TokenType.identifier) return value === "return" || value === "throw";
+    if (prev.type !== TokenType.punctuator) return false;
+    switch (value) {
+        case "(":
+        case "[":
+        case ",":
+        case ";":
+        case "{":
+        case "}":
+        case ":":
+            return true;
+        case "?":
+            return content.charAt(prev.start - 1) !== "?";
+        case "=":
+            return !/[=!<>]/.test(content.charAt(prev.start - 1));
+        case "&":
+            return operator === "&&" && content.charAt(prev.start - 1) === "&";
+        case "|":
+            return operator !== "?" && content.charAt(prev.start - 1) === "|";
+    }
+    return false;
+}
+
+/**
+ * 将常量编码为 JS 字面量。
+ * @param value 要编码的值。
+ * @returns 返回 JS 代码。对象和负数会用括号包围，以便作为表达式的一部分。
+ */
+function encodeLiteral(value: any) {
+    if (value === undefined) return "undefined";
+    let result = JSON.stringify(value);
+    return typeof value === "object" && value !== null || typeof value === "number" && value < 0 ? `(${result})` : result;
+}
+
+/**
+ * 判断指定的字符串或数字常量能否按原样交给宏表达式计算。
+ * @param value 常量的源码。
+ * @param type 常量的类型。
+ * @returns 宏表达式只支持 \n、\r、\t 和引号、反斜杠的转义以及十进制和十六进制数字，其它写法返回 false。
+ */
+function isMacroLiteral(value: string, type: TokenType) {
+    return type === TokenType.string ?
+        /^(["'])(?:[^\\]|\\[nrt"'\\])*\1$/.test(value) :
+        /^(?:0[xX][\da-fA-F]+|(?:0|[1-9]\d*)(?:\.\d*)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)$/.test(value);
 }
 
 /**
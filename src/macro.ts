@@ -0,0 +1,169 @@
+﻿/**
+ * @file 宏表达式求值。
+ */
+
+/**
+ * 计算宏表达式的值。
+ * @param expression 要计算的表达式。支持 `!`、`-`、`&&`、`||`、比较运算符、字符串和数字常量、括号和 `defined(NAME)`。
+ * @param getDefined 获取宏的值的回调函数。
+ * @param isDefined 判断宏是否已定义的回调函数。
+ * @returns 返回表达式的值。
+ * @throws 如果表达式语法错误则抛出异常，异常的 index 属性为出错位置在表达式中的索引。
+ * @remark 表达式中的所有名称都只作为宏名解析，计算过程不会执行任何代码。
+ */
+export function evaluateMacro(expression: string, getDefined: (name: string) => any, isDefined: (name: string) => boolean) {
+    let index = 0;
+
+    // 跳过空白后读取指定的运算符之一。较长的运算符应排在前面。
+    const read = (operators: string[]) => {
+        skipWhitespace();
+        for (const operator of operators) {
+            if (expression.startsWith(operator, index)) {
+                index += operator.length;
+                return operator;
+            }
+        }
+        return null;
+    };
+    const skipWhitespace = () => {
+        while (index < expression.length && /\s/.test(expression.charAt(index))) index++;
+    };
+    const error = (message: string, at = index): never => {
+        throw createError(message, at);
+    };
+
+    const parseOr = (): any => {
+        let value = parseAnd();
+        while (read(["||"])) {
+            const right = parseAnd();
+            value = value || right;
+        }
+        return value;
+    };
+    const parseAnd = (): any => {
+        let value = parseEquality();
+        while (read(["&&"])) {
+            const right = parseEquality();
+            value = value && right;
+        }
+        return value;
+    };
+    const parseEquality = (): any => {
+        let value = parseRelational();
+        for (let operator: string; operator = read(["===", "!==", "==", "!="]);) {
+            const right = parseRelational();
+            switch (operator) {
+                case "===": value = value === right; break;
+                case "!==": value = value !== right; break;
+                case "==": value = value == right; break;
+                default: value = value != right; break;
+            }
+        }
+        return value;
+    };
+    const parseRelational = (): any => {
+        let value = parseUnary();
+        for (let operator: string; operator = read(["<=", ">=", "<", ">"]);) {
+            const right = parseUnary();
+            switch (operator) {
+                case "<=": value = value <= right; break;
+                case ">=": value = value >= right; break;
+                case "<": value = value < right; break;
+                default: value = value > right; break;
+            }
+        }
+        return value;
+    };
+    const parseUnary = (): any => {
+        switch (read(["!", "-"])) {
+            case "!":
+                return !parseUnary();
+            case "-":
+                return -parseUnary();
+            default:
+                return parsePrimary();
+        }
+    };
+    const parsePrimary = (): any => {
+        skipWhitespace();
+        const start = index;
+        const ch = expression.charCodeAt(index);
+
+        // (...)
+        if (ch === 40 /*(*/) {
+            index++;
+            const value = parseOr();
+            if (!read([")"])) error("Missing ')'");
+            return value;
+        }
+
+        // "..." 或 '...'
+        if (ch === 34 /*"*/ || ch === 39 /*'*/) {
+            let value = "";
+            for (index++; index < expression.length; index++) {
+                const c = expression.charCodeAt(index);
+                if (c === ch) {
+                    index++;
+                    return value;
+                }
+                if (c === 92 /*\*/ && index + 1 < expression.length) {
+                    const escaped = expression.charAt(++index);
+                    value += escaped === "n" ? "\n" : escaped === "r" ? "\r" : escaped === "t" ? "\t" : escaped;
+                } else {
+                    value += expression.charAt(index);
+                }
+            }
+            return error("Unterminated string", start);
+        }
+
+        // 数字。
+        const number = /^(?:0[xX][\da-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/.exec(expression.substr(index));
+        if (number) {
+            index += number[0].length;
+            return +number[0];
+        }
+
+        // 名称。
+        const name = /^[a-zA-Z\u4e00-\u9fa5_$][\w\u4e00-\u9fa5$]*/.exec(expression.substr(index));
+        if (name) {
+            index += name[0].length;
+            switch (name[0]) {
+                case "true":
+                    return true;
+                case "false":
+                    return false;
+                case "null":
+                    return null;
+                case "defined":
+                    if (!read(["("])) return getDefined(name[0]);
+                    skipWhitespace();
+                    const arg = /^[a-zA-Z\u4e00-\u9fa5_$][\w\u4e00-\u9fa5$]*/.exec(expression.substr(index));
+                    if (!arg) error("Macro name expected");
+                    index += arg[0].length;
+                    if (!read([")"])) error("Missing ')'");
+                    return isDefined(arg[0]);
+                default:
+                    return getDefined(name[0]);
+            }
+        }
+
+        return index < expression.length ? error(`Unexpected '${expression.charAt(index)}'`) : error("Unexpected end of expression");
+    };
+
+    const result = parseOr();
+    skipWhitespace();
+    if (index < expression.length) error(`Unexpected '${expression.charAt(index)}'`);
+    return result;
+}
+
+/**
+ * 创建表达式语法错误。
+ * @param message 错误的信息。
+ * @param index 出错位置在表达式中的索引。
+ * @returns 返回错误对象。
+ */
+function createError(message: string, index: number) {
+    const result = new SyntaxError(`${message} at column ${index + 1}.`) as SyntaxError & { index: number };
+    result.index = index;
+    return result;
+}
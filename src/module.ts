@@ -1,9 +1,13 @@
 ﻿/**
  * @file 模块基类。
  */
+import * as FS from "fs";
 import * as Path from "path";
+import * as Crypto from "crypto";
+import * as digo from "digo";
 import * as IO from "tutils/node/io.js";
 import { BuildFile, Writer } from "tpack/src/buildFile";
+import { evaluateMacro } from "./macro";
 
 /**
  * 表示一个生成模块。
@@ -54,7 +58,7 @@ export abstract class BuildModule {
     /**
      * 获取当前模块的类型。
      */
-    get type() { return this.source.isText ? ModuleType.text : ModuleType.binary; }
+    get type(): ModuleType { return this.source.isText ? ModuleType.text : ModuleType.binary; }
 
     /**
      * 获取当前模块的源地址。
@@ -77,6 +81,11 @@ export abstract class BuildModule {
 
     // #region 依赖关系
 
+    /**
+     * 获取当前模块通过地址引用的所有模块。
+     */
+    refs: BuildModule[];
+
     /**
      * 标记当前模块引用了指定的模块。
      * @param source 相关的代码片段。
@@ -85,6 +94,12 @@ export abstract class BuildModule {
      * @param name 引用的来源名。
      */
     ref(source: string, sourceIndex: number, module: BuildModule, name: string) {
+        this.refs = this.refs || [];
+        if (this.refs.indexOf(module) < 0) this.refs.push(module);
+        this.addDependency("ref", source, sourceIndex, module, name);
+
+        // 引用的文件名包含内容哈希时，引用的模块更改后当前模块也需要重新生成。
+        if (this.options.output && this.options.output.fileName) addDependent(module, this);
         this.file.ref(module.path, this.source.captureLocation(source, sourceIndex, {
             plugin: "webModular",
             name: name
@@ -112,6 +127,8 @@ export abstract class BuildModule {
         // 不重复包含相同的模块。
         this.includes = this.includes || [];
         if (this.includes.indexOf(module) < 0) this.includes.push(module);
+        addDependent(module, this);
+        this.addDependency("include", source, sourceIndex, module, name);
 
         // 记录文件包含关系。
         this.file.dep(module.path, this.source.captureLocation(source, sourceIndex, {
@@ -144,6 +161,69 @@ export abstract class BuildModule {
         return false;
     }
 
+    /**
+     * 获取当前模块的所有依赖关系。同一模块在不同位置被引用时会记录多次。
+     */
+    dependencies: ModuleDependency[];
+
+    /**
+     * 记录一个依赖关系。
+     * @param type 依赖关系的类型。
+     * @param source 相关的代码片段。
+     * @param sourceIndex *source* 在源文件的起始位置。
+     * @param module 目标模块。
+     * @param name 依赖的来源名。
+     */
+    private addDependency(type: ModuleDependency["type"], source: string, sourceIndex: number, module: BuildModule, name: string) {
+        this.dependencies = this.dependencies || [];
+        this.dependencies.push({ type, name, module, source, sourceIndex });
+    }
+
+    /**
+     * 获取直接包含、依赖或排除了当前模块的所有模块。
+     */
+    dependents: BuildModule[];
+
+    /**
+     * 使当前模块及直接或间接包含、依赖或排除了当前模块的模块失效。失效的模块将在下次获取时重新解析。
+     * @returns 返回所有失效的模块（包括当前模块）。
+     * @remark 当前模块将重新从源文件载入，其它模块继续使用原有的源内容（源文件可能已被生成的内容覆盖）。
+     */
+    invalidate() {
+        let result: BuildModule[] = [this];
+        for (let i = 0; i < result.length; i++) {
+            let module = result[i];
+            if (module.file.webModule === module) {
+                let newModule = new (module.constructor as new (file: BuildFile, options: ModuleOptions) => BuildModule)(module.file, module.options);
+                if (module !== this) newModule._source = module._source;
+                module.file.webModule = newModule;
+            }
+            if (module.dependents) {
+                for (let j = 0; j < module.dependents.length; j++) {
+                    if (result.indexOf(module.dependents[j]) < 0) result.push(module.dependents[j]);
+                }
+            }
+        }
+
+        // 重新解析后会重新记录依赖关系。
+        for (let i = 0; i < result.length; i++) {
+            result[i].unlink(result);
+        }
+
+        return result;
+    }
+
+    /**
+     * 当前模块失效时移除当前模块在其依赖的模块中留下的记录。
+     * @param invalidated 所有失效的模块。
+     */
+    protected unlink(invalidated: BuildModule[]) {
+        removeDependent(this.refs, this);
+        removeDependent(this.requires, this);
+        removeDependent(this.includes, this);
+        removeDependent(this.externals, this);
+    }
+
     /**
      * 获取当前文件直接依赖的所有模块。
      */
@@ -164,6 +244,8 @@ export abstract class BuildModule {
         // 不重复依赖相同的模块。
         this.requires = this.requires || [];
         if (this.requires.indexOf(module) < 0) this.requires.push(module);
+        addDependent(module, this);
+        this.addDependency("require", source, sourceIndex, module, name);
 
         // 记录文件包含关系。
         this.file.dep(module.path, this.source.captureLocation(source, sourceIndex, {
@@ -220,6 +302,8 @@ export abstract class BuildModule {
         // 不重复排除相同的模块。
         this.externals = this.externals || [];
         if (module !== this && this.externals.indexOf(module) < 0) this.externals.push(module);
+        addDependent(module, this);
+        this.addDependency("external", source, sourceIndex, module, name);
 
         // 排除模块的变化也会影响当前模块，记录文件包含关系。
         this.file.dep(module.path, this.source.captureLocation(source, sourceIndex, {
@@ -320,10 +404,11 @@ export abstract class BuildModule {
         }
 
         // 根据排序规则查找插入点。
+        // 在某个替换记录的起始位置插入内容时，插入到该替换记录之前。
         let p = replacements.length;
         while (p) {
             let r = replacements[p - 1];
-            if (startIndex >= r.startIndex) {
+            if (startIndex > r.startIndex || startIndex === r.startIndex && (endIndex > startIndex || r.endIndex === r.startIndex)) {
                 // 无法插入到上一个替换点中间：忽略当前更新操作。
                 if (startIndex < r.endIndex || (p < replacements.length && endIndex > replacements[p].startIndex)) {
                     return -1;
@@ -333,8 +418,8 @@ export abstract class BuildModule {
             p--;
         }
 
-        // 插入到指定位置。
-        this._lastReplacementEndIndex = endIndex;
+        // 插入到指定位置。仅插入到末尾时才更新最后一次替换的位置。
+        if (p === replacements.length) this._lastReplacementEndIndex = endIndex;
         replacements.splice(p, 0, { startIndex, endIndex, data });
         return p;
     }
@@ -342,15 +427,21 @@ export abstract class BuildModule {
     /**
      * 统计隐藏的次数。
      */
-    private _hideCount: number;
+    private _hideCount = 0;
 
     /**
-     * 开始一个隐藏区域。隐藏区域内的代码会被删除。
+     * 存储所有隐藏区域。未结束的区域结束位置为源内容末尾。
+     */
+    private _hiddenRegions: { startIndex: number, endIndex: number }[];
+
+    /**
+     * 开始一个隐藏区域。隐藏区域内的代码会被删除，且不再解析其中的依赖。
      * @param sourceIndex 区域的索引。
      */
     protected beiginHiddenRegion(sourceIndex) {
         if (this._hideCount === 0) {
-            this.replacements.push({ startIndex: sourceIndex, endIndex: this.content.length + 1, data: "" });
+            this._hiddenRegions = this._hiddenRegions || [];
+            this._hiddenRegions.push({ startIndex: sourceIndex, endIndex: this.content.length });
         }
         this._hideCount++;
     }
@@ -362,18 +453,88 @@ export abstract class BuildModule {
     protected endHiddenRegion(sourceIndex) {
         this._hideCount--;
         if (this._hideCount === 0) {
-            this.replacements[this.replacements.length - 1].endIndex = sourceIndex;
+            this._hiddenRegions[this._hiddenRegions.length - 1].endIndex = sourceIndex;
+        }
+    }
+
+    /**
+     * 将所有隐藏区域添加到替换列表。
+     * @remark 区域内的替换记录会被删除；部分重叠的替换记录（如条件指令所在的注释）会保留，区域缩小到替换记录之外。
+     */
+    private applyHiddenRegions() {
+        if (!this._hiddenRegions) return;
+        let replacements = this.replacements || [];
+        for (let i = 0; i < this._hiddenRegions.length; i++) {
+            let region = { startIndex: this._hiddenRegions[i].startIndex, endIndex: this._hiddenRegions[i].endIndex, data: "" };
+
+            // 替换记录之间不会重叠，缩小区域后不会产生新的部分重叠。
+            for (let j = 0; j < replacements.length; j++) {
+                let r = replacements[j];
+                if (r.startIndex < region.startIndex && r.endIndex > region.startIndex) {
+                    region.startIndex = Math.min(r.endIndex, region.endIndex);
+                } else if (r.startIndex < region.endIndex && r.endIndex > region.endIndex) {
+                    region.endIndex = Math.max(r.startIndex, region.startIndex);
+                }
+            }
+            if (region.startIndex >= region.endIndex) continue;
+
+            let result: BuildModule["replacements"] = [];
+            let p = -1;
+            for (let j = 0; j < replacements.length; j++) {
+                let r = replacements[j];
+                if (r.startIndex < region.endIndex && r.endIndex > region.startIndex || r.startIndex > region.startIndex && r.startIndex < region.endIndex) {
+                    continue;
+                }
+                if (p < 0 && r.startIndex >= region.endIndex) p = result.length;
+                result.push(r);
+            }
+            result.splice(p < 0 ? result.length : p, 0, region);
+            replacements = result;
+        }
+        this.replacements = replacements;
+        this._lastReplacementEndIndex = replacements.length ? replacements[replacements.length - 1].endIndex : 0;
+    }
+
+    /**
+     * 判断指定位置是否在隐藏区域内。
+     * @param sourceIndex 要判断的位置。
+     */
+    protected isHidden(sourceIndex: number) {
+        if (this._hiddenRegions) {
+            for (let i = 0; i < this._hiddenRegions.length; i++) {
+                if (sourceIndex >= this._hiddenRegions[i].startIndex && sourceIndex < this._hiddenRegions[i].endIndex) {
+                    return true;
+                }
+            }
         }
+        return false;
     }
 
     // #endregion
 
     // #region 模块生成
 
+    /**
+     * 判断当前模块是否已保存。
+     */
+    saved: boolean;
+
     /**
      * 将模块信息保存到源文件。
      */
     save() {
+        if (this.saved) return;
+        this.saved = true;
+
+        // 所有依赖都已解析，可以检查循环依赖。
+        this.checkCircularRequires();
+
+        // 导出的 CSS 文件和引用的文件的文件名可能包含内容哈希，需要先保存。
+        if (this.extractCss) {
+            this.extractCss.save();
+        }
+        this.saveRefs(this.getAllRequires());
+
         let options = this.options.output;
         let writer = this.file.createWriter(options && options.sourceMap != null ? options.sourceMap : !!this.file.sourceMap);
 
@@ -388,12 +549,107 @@ export abstract class BuildModule {
 
         // 保存到文件。
         writer.end();
+        this.renameFile(this.file);
 
-        // 保存导出的 CSS 文件。
-        if (this.extractCss) {
-            this.extractCss.save();
+    }
+
+    /**
+     * 检查当前模块直接或间接依赖的模块中的循环依赖，并在形成循环的依赖处报告完整的依赖链。
+     */
+    protected checkCircularRequires() {
+        let options = this.options.resolve;
+        let path: BuildModule[] = [];
+        let requires: ModuleDependency[] = [];
+        let checked: BuildModule[] = [];
+        let visit = (module: BuildModule) => {
+            if (checked.indexOf(module) >= 0) return;
+            path.push(module);
+            if (module.dependencies) {
+                for (let i = 0; i < module.dependencies.length; i++) {
+                    let dependency = module.dependencies[i];
+                    if (dependency.type !== "require") continue;
+                    let index = path.indexOf(dependency.module);
+                    if (index < 0) {
+                        requires.push(dependency);
+                        visit(dependency.module);
+                        requires.pop();
+                        continue;
+                    }
+
+                    // 从不同模块开始检查时同一个循环只报告一次。
+                    let edges = requires.slice(index).concat(dependency);
+                    if (edges.every(edge => reportedCircularRequires.has(edge))) continue;
+                    edges.forEach(edge => reportedCircularRequires.add(edge));
+                    let cycle = path.slice(index);
+                    if (options && options.ignoreCircular != null && cycle.some(module => matchPatterns(module, options.ignoreCircular))) continue;
+                    let circular = options && options.circular;
+                    if (typeof circular === "function") circular = (options.circular as (modules: BuildModule[]) => "error" | "warning" | "ignore" | boolean)(cycle);
+                    if (circular === false || circular === "ignore") continue;
+
+                    // 依赖链中每个模块都附带其依赖下一个模块的位置。
+                    let chain: string[] = [];
+                    for (let j = 0; j < cycle.length; j++) {
+                        let location = getSourceLocation(cycle[j], edges[j].sourceIndex);
+                        chain.push(digo.getDisplayName(cycle[j].path) + (location ? `(${location.line + 1},${location.column + 1})` : ""));
+                    }
+                    chain.push(digo.getDisplayName(dependency.module.path));
+                    module.report(dependency.source, dependency.sourceIndex, "Circular require: {chain}.", { chain: chain.join(" -> ") }, circular !== true && circular !== "error");
+                }
+            }
+            path.pop();
+            checked.push(module);
+        };
+        visit(this);
+    }
+
+    /**
+     * 如果生成的文件名包含内容哈希，则先保存指定模块（及其包含的模块）引用的模块，以便写入时使用最终文件名。
+     * @param moduleList 要写入的模块列表。
+     * @remark 循环引用的模块无法确定最终文件名，将使用重命名前的地址。
+     */
+    protected saveRefs(moduleList: BuildModule[]) {
+        if (!this.options.output || !this.options.output.fileName) return;
+        for (let i = 0; i < moduleList.length; i++) {
+            let module = moduleList[i];
+            if (module.refs) {
+                for (let j = 0; j < module.refs.length; j++) {
+                    module.refs[j].save();
+                }
+            }
+            if (module.includes) {
+                for (let j = 0; j < module.includes.length; j++) {
+                    this.saveRefs(module.includes[j].getAllRequires());
+                }
+            }
         }
+    }
 
+    /**
+     * 根据 output.fileName 配置重命名生成的文件。
+     * @param file 要重命名的文件。
+     */
+    protected renameFile(file: BuildFile) {
+        let fileName = this.options.output && this.options.output.fileName;
+        if (typeof fileName === "function") fileName = (fileName as (file: BuildFile) => string)(file);
+        if (!fileName) return;
+
+        // 重新生成时基于重命名前的文件名。
+        let name = originalNames.get(file);
+        if (name == null) originalNames.set(file, name = file.name);
+        let dir = /^(.*[\\\/])?/.exec(name)[0];
+        let ext = /(\.[^.\\\/]*)?$/.exec(name.substr(dir.length))[0];
+        let hash: string;
+        file.name = dir + (fileName as string).replace(/\[(name|ext|contenthash)(?::(\d+))?\]/g, (source: string, key: string, length: string) => {
+            switch (key) {
+                case "name":
+                    return name.substring(dir.length, name.length - ext.length);
+                case "ext":
+                    return ext.substr(1);
+                default:
+                    hash = hash || Crypto.createHash("md5").update(file.buffer).digest("hex");
+                    return length ? hash.substr(0, +length) : hash;
+            }
+        });
     }
 
     /**
@@ -403,6 +659,14 @@ export abstract class BuildModule {
      */
     write(writer: Writer, moduleList: BuildModule[] = this.getAllRequires()) {
         let options = this.options.output;
+
+        // 记录每个模块生成的内容的位置，全部写入后再截取内容，用于生成打包报告。包含的模块计入所在模块。
+        let ranges: number[];
+        if (options && options.report && recordingWriter !== writer) {
+            ranges = [];
+            recordingWriter = writer;
+        }
+
         for (let i = 0; i < moduleList.length; i++) {
             let module = moduleList[i];
 
@@ -417,7 +681,9 @@ export abstract class BuildModule {
             }
 
             // 写入模块。
+            if (ranges) ranges.push(writer.toString().length);
             this.writeModule(writer, module);
+            if (ranges) ranges.push(writer.toString().length);
 
             // 写入模块尾。
             if (options && options.modulePostfix) {
@@ -425,17 +691,27 @@ export abstract class BuildModule {
             }
 
         }
+
+        if (ranges) {
+            recordingWriter = null;
+            let content = writer.toString();
+            let contents: BundleContent[] = [];
+            for (let i = 0; i < moduleList.length; i++) {
+                contents.push({ module: moduleList[i], content: content.substring(ranges[i * 2], ranges[i * 2 + 1]) });
+            }
+            bundleContents.set(writer.file, contents);
+        }
     }
 
     /**
      * 写入一个模块。
      * @param writer 目标输出器。
      * @param module 要写入的模块。
+     * @param replacements 写入时使用的替换列表。
      */
-    protected writeModule(writer: Writer, module: BuildModule) {
+    protected writeModule(writer: Writer, module: BuildModule, replacements = module.replacements) {
 
         // 当前模块未作修改：全部写入。
-        let replacements = module.replacements;
         if (!replacements || !replacements.length) {
             writer.write(module.content, module.source, 0);
             return;
@@ -459,6 +735,7 @@ export abstract class BuildModule {
                     writer.write((replacement.data as (module: BuildModule) => string)(writer.file.webModule), module.source, replacement.startIndex);
                     break;
                 case "object":
+                    // 包含的模块使用其自身的源文件和位置写入，生成的源映射指向被包含的原始文件。
                     (replacement.data as BuildModule).write(writer);
                     break;
             }
@@ -475,10 +752,24 @@ export abstract class BuildModule {
 
     // #region 解析公用
 
+    /**
+     * 判断当前模块是否已载入。
+     */
+    loaded: boolean;
+
     /**
      * 从文件载入模块信息。
+     * @param defines 继承的 #define 定义。仅首次载入时有效。
      */
-    load() {
+    load(defines?: { name: string, value: any, defined: boolean, sourceIndex: number }[]) {
+
+        // 不重复载入模块。
+        if (this.loaded) return;
+        this.loaded = true;
+
+        // 继承包含当前模块的模块中的 #define 定义。
+        this._inheritedDefines = JSON.stringify(defines || null);
+        if (defines) this._defines = defines;
 
         // 设置解析目标。
         let target = this.options.target;
@@ -510,19 +801,21 @@ export abstract class BuildModule {
         }
 
         // 跳过解析当前模块。
-        if (this.options.noParse) return;
+        if (!this.options.noParse) {
 
-        // 禁用内联文件的源映射。
-        if (this.path.indexOf("#") >= 0 && this.options.output && this.options.output.sourceMap) {
-            this.options.output = this.options.output || {};
-            this.options.output.sourceMap = false;
-        }
+            // 解析模块。
+            this.parse();
 
-        // 解析模块。
-        this.parse();
+            // 解析宏。
+            this.parseSubs();
 
-        // 解析宏。
-        this.parseSubs();
+            // 删除隐藏区域。
+            this.applyHiddenRegions();
+
+        }
+
+        // 保存解析缓存。
+        this.saveCache();
 
     }
 
@@ -531,6 +824,92 @@ export abstract class BuildModule {
      */
     protected abstract parse();
 
+    /**
+     * 使用解析缓存扫描源码。如果源内容和配置都未更改，则直接返回上次扫描的结果。
+     * @param name 扫描的名称。
+     * @param callback 扫描源码的函数。返回值必须可以序列化为 JSON。
+     * @returns 返回扫描结果。
+     */
+    protected scan<T>(name: string, callback: () => T): T {
+        let cache = this.getCache();
+        if (!cache) return callback();
+        if (name in cache.scans) return cache.scans[name];
+        this._cacheChanged = true;
+        return cache.scans[name] = callback();
+    }
+
+    /**
+     * 当前模块的解析缓存。
+     */
+    private _cache: ModuleCache;
+
+    /**
+     * 判断当前模块的解析缓存是否已更改。
+     */
+    private _cacheChanged: boolean;
+
+    /**
+     * 获取当前模块的解析缓存。每个模块只保存一份缓存，源内容或配置更改后旧的扫描和解析结果将被丢弃。
+     * @returns 如果未启用缓存则返回 null。
+     */
+    private getCache() {
+        if (!this._cache && this.options.cacheDir) {
+            let hash = Crypto.createHash("md5").update(getOptionsKey(this.options) + "\0" + this.content).digest("hex");
+            try {
+                this._cache = JSON.parse(FS.readFileSync(this.getCachePath(), "utf-8"));
+            } catch (e) { }
+            if (!this._cache || this._cache.hash !== hash) {
+                this._cache = { hash, scans: { __proto__: null }, resolves: { __proto__: null } };
+                this._cacheChanged = true;
+            }
+        }
+        return this._cache;
+    }
+
+    /**
+     * 获取当前模块的解析缓存的保存路径。
+     */
+    private getCachePath() {
+        return Path.join(Path.resolve(this.file.builder.basePath, this.options.cacheDir), Crypto.createHash("md5").update((this.constructor as Function).name + "\0" + this.path).digest("hex") + ".json");
+    }
+
+    /**
+     * 保存当前模块已更改的解析缓存，并释放内存中的缓存。
+     */
+    private saveCache() {
+        if (this._cache && this._cacheChanged) {
+            let path = this.getCachePath();
+            try {
+                ensureDir(Path.dirname(path));
+                FS.writeFileSync(path, JSON.stringify(this._cache));
+            } catch (e) {
+                this.report("(options: cacheDir)", -1, "Cannot write cache file: '{path}'. {error}", { path, error: e.message }, true, e);
+            }
+        }
+        this._cache = null;
+        this._cacheChanged = false;
+    }
+
+    /**
+     * 使用解析缓存查找源码中所有匹配指定正则表达式的位置，并依次执行回调函数。
+     * @param name 扫描的名称。
+     * @param regExp 要匹配的全局正则表达式。
+     * @param callback 回调函数。参数同 `String.prototype.replace` 的回调函数（不含最后的源码参数）。
+     */
+    protected match(name: string, regExp: RegExp, callback: (...args: any[]) => void) {
+        let matches = this.scan(name, () => {
+            let result: any[][] = [];
+            this.content.replace(regExp, (...args: any[]) => {
+                result.push(args.slice(0, -1));
+                return "";
+            });
+            return result;
+        });
+        for (let i = 0; i < matches.length; i++) {
+            callback.apply(this, matches[i].map(arg => arg === null ? undefined : arg));
+        }
+    }
+
     /**
      * 报告错误或警告。
      * @param source 相关的代码片段。
@@ -541,6 +920,10 @@ export abstract class BuildModule {
      * @param error 原始错误信息。
      */
     protected report(source: string, sourceIndex: number, message: string, args?: Object, warning?: boolean, error?: Error) {
+
+        // 隐藏区域内的代码不会生成，不报告错误。
+        if (this.isHidden(sourceIndex)) return;
+
         let err = this.source.captureLocation(source, sourceIndex, {
             name: warning ? "WebModularWarning" : "WebModularError",
             error: error,
@@ -561,9 +944,14 @@ export abstract class BuildModule {
      * @param sourceIndex *source* 在源文件的起始位置。
      * @param url 要处理的相对地址。
      * @param usage 地址的使用场景。
+     * @param defines 目标模块首次载入时继承的 #define 定义。
      * @returns 如果解析成功则返回包含地址信息的对象；否则返回 null。
      */
-    protected resolveUrl(source: string, sourceIndex: number, url: string, usage: UrlUsage) {
+    protected resolveUrl(source: string, sourceIndex: number, url: string, usage: UrlUsage, defines?: { name: string, value: any, defined: boolean, sourceIndex: number }[]) {
+
+        // 隐藏区域内的依赖不会生成，不需要解析。
+        if (this.isHidden(sourceIndex)) return null;
+
 
         let options = this.options.resolve;
 
@@ -596,67 +984,88 @@ export abstract class BuildModule {
         let resolved = parts[1];
         let local: string;
 
+        // 使用解析缓存。
+        let moduleCache = this.getCache();
+        let cacheKey = usage + ":" + resolved;
+        let stats: { [path: string]: number };
+        if (moduleCache) {
+            let item = moduleCache.resolves[cacheKey];
+            if (item) {
+                if (isCacheValid(item.stats)) {
+                    local = item.path;
+                } else {
+                    delete moduleCache.resolves[cacheKey];
+                    this._cacheChanged = true;
+                }
+            }
+        }
+
         // 解析地址。
-        if (usage === UrlUsage.require && (!options || options.commonJs !== false)) {
+        if (local == null) {
+            if (usage === UrlUsage.require && (!options || options.commonJs !== false)) {
 
-            // 标记是否完全按 nodejs 方式搜索模块。
-            let nodejs = this.target === ModuleTarget.nodejs;
+                // 标记是否完全按 nodejs 方式搜索模块。
+                let nodejs = this.target === ModuleTarget.nodejs;
 
-            // 计算要填充的扩展名。
-            let extensions = options && options.extensions || (nodejs ? ["", ".node", ".json", ".js"] : ["", ".json", ".js", ".css", ".tpl"]);
+                // 计算要填充的扩展名。
+                let extensions = options && options.extensions || (nodejs ? ["", ".node", ".json", ".js"] : ["", ".json", ".js", ".css", ".tpl"]);
 
-            // 区分搜索相对路径还是全局模块。
-            let c = resolved.charCodeAt(0);
-            if (c === 46/*.*/ || c === 47/*/*/) {
-                local = tryExtensions(resolved = this.file.resolve(resolved), extensions);
-            } else {
+                // 区分搜索相对路径还是全局模块。
+                let c = resolved.charCodeAt(0);
+                if (c === 46/*.*/ || c === 47/*/*/) {
+                    local = tryExtensions(resolved = this.file.resolve(resolved), extensions);
+                } else {
 
-                // 使用缓存。
-                let cache = !options || options.cache !== false;
-                if (cache) {
-                    this._globalModulesCache = this._globalModulesCache || { __proto__: null };
-                    local = this._globalModulesCache[resolved];
-                }
+                    // 使用缓存。
+                    let cache = !options || options.cache !== false;
+                    if (cache) {
+                        this._globalModulesCache = this._globalModulesCache || { __proto__: null };
+                        local = this._globalModulesCache[resolved];
+                    }
 
-                if (local == null) {
+                    if (local == null) {
 
-                    // 搜索内置模块。
-                    if (!options || options.native !== false) {
-                        local = getNativeModulePath(resolved);
+                        // 搜索内置模块。
+                        if (!options || options.native !== false) {
+                            local = getNativeModulePath(resolved);
 
-                        // 打包为 NodeJs 时，不需要处理 Node 内置模块。
-                        if (nodejs && local !== undefined) return;
-                    }
+                            // 打包为 NodeJs 时，不需要处理 Node 内置模块。
+                            if (nodejs && local !== undefined) return;
+                        }
 
-                    // 搜索 node_modules。
-                    if (local == null) {
-                        local = tryPackage(this.file.srcDir, resolved, options && options.modulesDirectories || (nodejs ? ["node_modules"] : ["web_modules", "node_modules"]), options && options.packageMains || (nodejs ? ["main"] : ["browser", "web", "browserify", "main"]), extensions);
-                    }
+                        // 搜索 node_modules。
+                        if (local == null) {
+                            let modulesDirectories = options && options.modulesDirectories || (nodejs ? ["node_modules"] : ["web_modules", "node_modules"]);
+                            let packageMains = options && options.packageMains || (nodejs ? ["main"] : ["browser", "web", "browserify", "main"]);
+                            local = tryPackage(this.file.srcDir, resolved, modulesDirectories, packageMains, extensions);
+                            if (moduleCache && local != null) stats = getResolveStats(this.file.srcDir, local, modulesDirectories);
+                        }
 
-                    // 搜索根目录。
-                    if (local == null && options && options.root != null) {
-                        if (typeof options.root === "string") {
-                            local = tryExtensions(Path.resolve(this.file.builder.basePath, options.root, resolved), extensions);
-                        } else {
-                            for (let i = 0; i < options.root.length; i++) {
-                                if ((local = tryExtensions(Path.resolve(this.file.builder.basePath, options.root[i], resolved), extensions)) != null) {
-                                    break;
+                        // 搜索根目录。
+                        if (local == null && options && options.root != null) {
+                            if (typeof options.root === "string") {
+                                local = tryExtensions(Path.resolve(this.file.builder.basePath, options.root, resolved), extensions);
+                            } else {
+                                for (let i = 0; i < options.root.length; i++) {
+                                    if ((local = tryExtensions(Path.resolve(this.file.builder.basePath, options.root[i], resolved), extensions)) != null) {
+                                        break;
+                                    }
                                 }
                             }
                         }
-                    }
 
-                    // 保存缓存。
-                    if (cache) {
-                        this._globalModulesCache[resolved] = local;
+                        // 保存缓存。
+                        if (cache) {
+                            this._globalModulesCache[resolved] = local;
+                        }
+
                     }
 
                 }
 
+            } else {
+                local = IO.existsFile(resolved = this.file.resolve(resolved)) ? resolved : null;
             }
-
-        } else {
-            local = IO.existsFile(resolved = this.file.resolve(resolved)) ? resolved : null;
         }
 
         // 执行 fallback。
@@ -664,6 +1073,15 @@ export abstract class BuildModule {
             local = IO.existsFile(resolved = options.fallback(url, this.file, usage)) ? resolved : null;
         }
 
+        // 保存解析缓存。未找到的地址不缓存，以便文件添加后可以立即找到。
+        if (moduleCache && local != null && !moduleCache.resolves[cacheKey]) {
+            stats = stats || {};
+            let dir = Path.dirname(local);
+            stats[dir] = getModifiedTime(dir);
+            moduleCache.resolves[cacheKey] = { path: local, stats };
+            this._cacheChanged = true;
+        }
+
         // 最终没找到模块。
         if (local == null) {
             let notFound = options && options.notFound;
@@ -676,7 +1094,7 @@ export abstract class BuildModule {
 
         // 解析模块并返回结果。
         return {
-            module: getModule(this.file.builder.getFile(local), this.options),
+            module: getModule(this.file.builder.getFile(local), this.options, defines),
             query: parts[2] || "",
             hash: parts[3] || "",
             alias: originalUrl != url ? originalUrl.replace(/[?#].*$/, "") : null
@@ -742,8 +1160,17 @@ export abstract class BuildModule {
      * @returns 返回包含的模块。如果解析错误则返回 null。
      */
     protected resolveInclude(source: string, sourceIndex: number, url: string, name: string) {
-        let obj = this.resolveUrl(source, sourceIndex, url, UrlUsage.local);
+
+        // 被包含的模块首次载入时继承当前位置有效的 #define 定义。
+        let inheritDefines = this.options.comment && this.options.comment.inheritDefines;
+        let defines = inheritDefines ? this.getActiveDefines(sourceIndex) : null;
+        let obj = this.resolveUrl(source, sourceIndex, url, UrlUsage.local, defines);
         if (!obj) return null;
+
+        // 模块只解析一次，之后以不同的定义包含时无法生效。
+        if (inheritDefines && obj.module._inheritedDefines !== JSON.stringify(defines)) {
+            this.report(source, sourceIndex, "'{path}' has already been parsed with different #define definitions. The definitions at this #include are ignored.", { path: obj.module.file.displayName }, true);
+        }
         if (!this.include(source, sourceIndex, obj.module, name)) {
             this.report(source, sourceIndex, "Circular include with '{path}'.", { path: obj.module.file.displayName });
             return null;
@@ -767,7 +1194,11 @@ export abstract class BuildModule {
         url = url ? this.file.resolve(this.file.format(url)) : this.file.srcName.replace(/\.\w+$/, "") + ".css";
         let file = this.file.builder.createFile(url);
         this.file.relate(file);
-        return this.extractCss = new (require("./css").CssModule)(file, this.options);
+
+        // 引用导出文件的地址也使用导出模块，以便获取重命名后的文件名。
+        this.extractCss = file.webModule = new (require("./css").CssModule)(file, this.options);
+        addDependent(this.extractCss, this);
+        return this.extractCss;
     }
 
     // #endregion
@@ -797,6 +1228,10 @@ export abstract class BuildModule {
 
         // 内联。
         let inlineLimit = resolveQuery(obj, "__inline") as typeof options.inline;
+        if (inlineLimit == null && obj.module.options.inline != null) {
+            inlineLimit = obj.module.options.inline;
+            if (typeof inlineLimit === "boolean") inlineLimit = inlineLimit ? -1 : 0;
+        }
         if (inlineLimit == null) {
             inlineLimit = options && options.inline;
             if (inlineLimit != null) {
@@ -804,7 +1239,7 @@ export abstract class BuildModule {
                 if (typeof inlineLimit === "boolean") inlineLimit = inlineLimit ? -1 : 0;
             }
         }
-        if (inlineLimit < 0 || inlineLimit && obj.module.file.buffer.length < inlineLimit) {
+        if (inlineLimit < 0 || inlineLimit && obj.module.file.buffer.length <= inlineLimit) {
             if (textInliner) {
                 let prefixAndPostfix = textInliner();
                 if (prefixAndPostfix) {
@@ -873,6 +1308,13 @@ export abstract class BuildModule {
             // 尝试使用公开路径。
             let url = resolveAlias(options.public, urlInfo.module.file.srcName);
             if (url) {
+
+                // 文件可能已按 output.fileName 重命名。
+                let fileName = Path.basename(urlInfo.module.file.name);
+                if (fileName !== Path.basename(urlInfo.module.file.srcName)) {
+                    url = url.replace(/[^\/]*$/, fileName);
+                }
+
                 return url + newQuery + urlInfo.hash;
             }
         }
@@ -901,14 +1343,17 @@ export abstract class BuildModule {
 
         // 解析注释。
         let foundSub = false;
-        comment.replace(/(#(include|external|require|target|if|else|elif|endif|region|endregion|error|warning|extract\-css)\s*)(.*)/g, (source2: string, prefix: string, name: string, arg: string, sourceIndex2: number) => {
+        comment.replace(/(#(include|external|require|target|define|undef|ifdef|ifndef|if|else|elif|endif|region|endregion|error|warning|extract\-css)\s*)(.*)/g, (source2: string, prefix: string, name: string, arg: string, sourceIndex2: number) => {
 
             // 禁止解析指定注释。
-            if (options && options[({ else: "if", elif: "if", endif: "if", endregion: "region" })[name] || name] === false) return "";
+            if (options && options[({ undef: "define", ifdef: "if", ifndef: "if", else: "if", elif: "if", endif: "if", endregion: "region" })[name] || name] === false) return "";
 
             sourceIndex2 += commentIndex;
             let argIndex = sourceIndex2 + prefix.length;
 
+            // 隐藏区域内只处理条件指令。
+            if (this.isHidden(sourceIndex2) && !/^(?:ifdef|ifndef|if|elif|else|endif|region|endregion)$/.test(name)) return "";
+
             foundSub = true;
 
             switch (name) {
@@ -927,6 +1372,18 @@ export abstract class BuildModule {
                 case "target":
                     this.resolveTarget(arg, argIndex, trimQuotes(arg));
                     break;
+                case "define":
+                    this.resolveDefineDirective(source2, sourceIndex2, arg, argIndex);
+                    break;
+                case "undef":
+                    this.resolveUndefDirective(source2, sourceIndex2, arg, argIndex);
+                    break;
+                case "ifdef":
+                    this.resolveIfdefDirective(source2, sourceIndex2, arg, argIndex, true);
+                    break;
+                case "ifndef":
+                    this.resolveIfdefDirective(source2, sourceIndex2, arg, argIndex, false);
+                    break;
                 case "if":
                     this.resolveIfDirective(source2, sourceIndex2, arg, argIndex);
                     break;
@@ -979,7 +1436,31 @@ export abstract class BuildModule {
      * @param expressionIndex *expression* 在源文件的起始位置。
      */
     protected resolveIfDirective(source: string, sourceIndex: number, expression: string, expressionIndex: number) {
-        let value = this.resolveMacro(expression, expressionIndex, expression) !== false;
+        this.beginIf(sourceIndex, this.resolveMacro(expression, expressionIndex, expression) !== false);
+    }
+
+    /**
+     * 解析 #ifdef name 和 #ifndef name。
+     * @param source 相关的代码片段。
+     * @param sourceIndex *source* 在源文件的起始位置。
+     * @param name 宏名称。
+     * @param nameIndex *name* 在源文件的起始位置。
+     * @param defined 如果是 #ifdef 则为 true，如果是 #ifndef 则为 false。
+     */
+    protected resolveIfdefDirective(source: string, sourceIndex: number, name: string, nameIndex: number, defined: boolean) {
+        name = name.trim();
+        if (!isMacroName(name)) {
+            this.report(name || source, name ? nameIndex : sourceIndex, "Invalid {directive} directive. Macro name expected.", { directive: defined ? "#ifdef" : "#ifndef" });
+        }
+        this.beginIf(sourceIndex, this.isDefined(name, sourceIndex) === defined);
+    }
+
+    /**
+     * 开始一个 #if 区域。
+     * @param sourceIndex 区域的索引。
+     * @param value 条件是否成立。
+     */
+    private beginIf(sourceIndex: number, value: boolean) {
 
         // 执行 #if
         this._ifStack = this._ifStack || [];
@@ -1116,6 +1597,89 @@ export abstract class BuildModule {
         this.report(source, sourceIndex, message, null, true);
     }
 
+    /**
+     * 存储当前模块内通过 #define 和 #undef 定义的宏。按在源文件的位置排序，继承的宏位置为 -1。
+     */
+    private _defines: { name: string, value: any, defined: boolean, sourceIndex: number }[];
+
+    /**
+     * 解析 #define name value。
+     * @param source 相关的代码片段。
+     * @param sourceIndex *source* 在源文件的起始位置。
+     * @param arg 宏名称和值。省略值时值为 true。
+     * @param argIndex *arg* 在源文件的起始位置。
+     */
+    protected resolveDefineDirective(source: string, sourceIndex: number, arg: string, argIndex: number) {
+        let match = /^([a-zA-Z\u4e00-\u9fa5_$][\w\u4e00-\u9fa5$]*)(?:\s+(.*?))?\s*$/.exec(arg);
+        if (!match) {
+            this.report(arg || source, arg ? argIndex : sourceIndex, "Invalid #define directive. Macro name expected.");
+            return;
+        }
+
+        let value = match[2] ? this.resolveMacro(match[2], argIndex + arg.indexOf(match[2], match[1].length), match[2]) : true;
+        this._defines = this._defines || [];
+        this._defines.push({ name: match[1], value, defined: true, sourceIndex });
+    }
+
+    /**
+     * 解析 #undef name。
+     * @param source 相关的代码片段。
+     * @param sourceIndex *source* 在源文件的起始位置。
+     * @param name 宏名称。
+     * @param nameIndex *name* 在源文件的起始位置。
+     */
+    protected resolveUndefDirective(source: string, sourceIndex: number, name: string, nameIndex: number) {
+        name = name.trim();
+        if (!isMacroName(name)) {
+            this.report(name || source, name ? nameIndex : sourceIndex, "Invalid {directive} directive. Macro name expected.", { directive: "#undef" });
+            return;
+        }
+
+        this._defines = this._defines || [];
+        this._defines.push({ name, value: undefined, defined: false, sourceIndex });
+    }
+
+    /**
+     * 存储当前模块载入时继承的 #define 定义序列化后的值。
+     */
+    private _inheritedDefines: string;
+
+    /**
+     * 获取在指定位置之前通过 #define 或 #undef 定义的宏。
+     * @param name 宏名称。
+     * @param sourceIndex 使用宏的位置。如果未指定则返回最后的定义。
+     * @returns 返回最近的定义。如果不存在则返回 null。
+     */
+    private getLocalDefine(name: string, sourceIndex?: number) {
+        if (this._defines) {
+            for (let i = this._defines.length - 1; i >= 0; i--) {
+                let define = this._defines[i];
+                if (define.name === name && (sourceIndex == null || define.sourceIndex < sourceIndex)) {
+                    return define;
+                }
+            }
+        }
+        return null;
+    }
+
+    /**
+     * 获取在指定位置有效的所有 #define 定义，用于传递给被包含的模块。
+     * @param sourceIndex 包含的位置。
+     * @returns 返回位置为 -1 的定义列表。如果不存在则返回 null。
+     */
+    private getActiveDefines(sourceIndex: number) {
+        let result: { name: string, value: any, defined: boolean, sourceIndex: number }[] = [];
+        if (this._defines) {
+            for (let i = 0; i < this._defines.length; i++) {
+                let define = this._defines[i];
+                if (define.sourceIndex >= sourceIndex) break;
+                result = result.filter(item => item.name !== define.name);
+                result.push({ name: define.name, value: define.value, defined: define.defined, sourceIndex: -1 });
+            }
+        }
+        return result.length ? result : null;
+    }
+
     // #endregion
 
     // #region 解析宏
@@ -1130,7 +1694,7 @@ export abstract class BuildModule {
         if (options === false) return;
 
         // 解析宏。
-        this.content.replace(/\b(__(url|skip|postfix|macro|include|external|require|target)\s*\(\s*)('(?:[^\\'\n\r\f]|\\[\s\S])*'|"(?:[^\\"\n\f]|\\[\s\S])*"|[^)\r\n]*)\s*\)/g, (source: string, prefix: string, name: string, arg: string, sourceIndex: number) => {
+        this.match("sub", /\b(__(url|skip|postfix|macro|include|external|require|target)\s*\(\s*)('(?:[^\\'\n\r\f]|\\[\s\S])*'|"(?:[^\\"\n\f]|\\[\s\S])*"|[^)\r\n]*)\s*\)/g, (source: string, prefix: string, name: string, arg: string, sourceIndex: number) => {
 
             // 禁止解析指定宏。
             if (options && options[name] === false) return "";
@@ -1190,26 +1754,31 @@ export abstract class BuildModule {
     protected resolveMacro(source: string, sourceIndex: number, expression: string) {
 
         // 简单宏名称。
-        if (/^[a-zA-Z\u4e00-\u9fa5_$][\w\u4e00-\u9fa5$]*$/.test(expression)) {
-            return this.getDefined(expression);
+        if (isMacroName(expression)) {
+            return this.getDefined(expression, sourceIndex);
         }
 
         // 复杂表达式。
         try {
-            // FIXME: 存在特定脚本注入发布工具?
-            return eval(expression.replace(/[a-zA-Z\u4e00-\u9fa5_$][\w\u4e00-\u9fa5$]*/g, name => JSON.stringify(this.getDefined(name))));
+            return evaluateMacro(expression, name => this.getDefined(name, sourceIndex), name => this.isDefined(name, sourceIndex));
         } catch (e) {
-            this.report(source, sourceIndex, "Cannot evaluate expression: '{expression}'. {error}", { expression, error: e }, false, e);
+
+            // 定位到表达式内出错的位置。
+            let offset = Math.max(source.indexOf(expression), 0) + (e.index || 0);
+            this.report(source.substr(offset), sourceIndex + offset, "Cannot evaluate expression: '{expression}'. {error}", { expression, error: e.message }, false, e);
             return null;
         }
     }
 
     /**
-     * 获取预定义的宏。
-     * @param name 要获取的宏名称。
-     * @return 返回宏对应的值。如果宏未定义则返回 @undefined。
+     * 获取指定宏的值。
+     * @param name 宏名称。
+     * @param sourceIndex 使用宏的位置。当前模块内在此位置之后的 #define 和 #undef 不生效。
+     * @returns 返回宏的值。如果宏未定义则返回 undefined。
      */
-    protected getDefined(name: string) {
+    protected getDefined(name: string, sourceIndex?: number) {
+        let local = this.getLocalDefine(name, sourceIndex);
+        if (local) return local.value;
         let defines = this.options.define;
         if (!defines || !defines.hasOwnProperty(name)) return undefined;
         let value = defines[name] as any;
@@ -1217,6 +1786,18 @@ export abstract class BuildModule {
         return value;
     }
 
+    /**
+     * 判断指定的宏是否已定义。
+     * @param name 宏名称。
+     * @param sourceIndex 使用宏的位置。当前模块内在此位置之后的 #define 和 #undef 不生效。
+     */
+    protected isDefined(name: string, sourceIndex?: number) {
+        let local = this.getLocalDefine(name, sourceIndex);
+        if (local) return local.defined;
+        let defines = this.options.define;
+        return !!defines && defines.hasOwnProperty(name);
+    }
+
     // #endregion
 
 }
@@ -1266,8 +1847,10 @@ export interface ModuleOptions {
      * @returns 有效的值为：
      * - "browser": 浏览器
      * - "nodejs": NodeJs 包
+     * - "tpack": TPack CMD 模块
+     * - "requirejs": Requirejs AMD 具名模块
      */
-    target?: "browser" | "nodejs";
+    target?: "browser" | "nodejs" | "tpack" | "requirejs";
 
     /**
      * 手动指定依赖的模块列表。
@@ -1284,6 +1867,25 @@ export interface ModuleOptions {
      */
     noParse?: boolean;
 
+    /**
+     * 解析缓存的保存文件夹（相对于 tpack.basePath）。
+     * @remark
+     * 设置后，源内容和配置都未更改的模块将直接使用上次扫描源码和解析地址的结果。
+     * 地址所在文件夹增删文件，或相关的 node_modules 文件夹、package.json 更改后将重新解析。
+     * 每个模块只保存最新一份缓存，源内容或配置更改后旧的结果会被覆盖。
+     * @default 不缓存
+     */
+    cacheDir?: string;
+
+    /**
+     * 当前模块被其它模块引用时是否内联。优先于引用方的 `url.inline` 配置。
+     * @returns 可能值有：
+     * - true：内联。
+     * - false：不内联。
+     * - 数字：当文件大小不超过指定字节数则内联，否则不内联。
+     */
+    inline?: boolean | number;
+
     /**
      * 解析地址相关配置。
      */
@@ -1398,6 +2000,20 @@ export interface ModuleOptions {
          */
         notFound?: "error" | "warning" | "ignore" | boolean | ((url: string, file: BuildFile, usage: UrlUsage) => ("error" | "warning" | "ignore" | boolean));
 
+        /**
+         * 设置如何处理循环依赖（如 A 依赖 B，B 又依赖 A）。循环依赖的模块执行时可能获取到未初始化完成的导出对象。可能值有：
+         * - true/"error": 报错。
+         * - "warning": 警告。
+         * - false/"ignore": 忽略。
+         * @default "warning"
+         */
+        circular?: "error" | "warning" | "ignore" | boolean | ((modules: BuildModule[]) => ("error" | "warning" | "ignore" | boolean));
+
+        /**
+         * 不报告包含匹配模块的循环依赖。可以是通配符（如 "node_modules"）、正则表达式或它们组成的数组。
+         */
+        ignoreCircular?: string | RegExp | (string | RegExp)[];
+
     }
 
     // #endregion
@@ -1480,11 +2096,23 @@ export interface ModuleOptions {
         target?: boolean;
 
         /**
-         * 是否解析 #if 指令。
+         * 是否解析 #if、#ifdef 和 #ifndef 指令。
          * @default true
          */
         if?: boolean;
 
+        /**
+         * 是否解析 #define 和 #undef 指令。定义的宏只在当前模块内之后的 #if 和 __macro 生效，并覆盖 define 配置。
+         * @default true
+         */
+        define?: boolean;
+
+        /**
+         * #include 包含的模块是否继承包含位置已通过 #define 定义的宏。模块只解析一次，因此只继承首次载入时的定义，之后以不同的定义包含时将报告警告。
+         * @default false
+         */
+        inheritDefines?: boolean;
+
         /**
          * 是否解析 #region 指令。
          * @default true
@@ -1570,9 +2198,36 @@ export interface ModuleOptions {
 
         /**
          * 设置是否生成源码映射表。
+         * @remark
+         * 内联的 &lt;script&gt;/&lt;style&gt;、#include 或 __include 包含的模块和内联的 @import 都会映射回原始文件，并合并源文件已有的源映射。
          */
         sourceMap?: boolean;
 
+        /**
+         * 生成的文件名。支持的标记有：
+         * - [name]: 原文件名（不含扩展名）。
+         * - [ext]: 原扩展名（不含 .）。
+         * - [contenthash]: 生成内容的 MD5 值。可使用 [contenthash:8] 截取前 8 位。
+         * 引用此文件的地址、分包地址和导出的 CSS 文件都会使用重命名后的文件名。由于引用的文件先于当前文件生成，依赖的内容改变时，当前文件的哈希值也会改变。
+         * @example "[name].[contenthash:8].[ext]"
+         * @default 不重命名
+         */
+        fileName?: string | ((file: BuildFile) => string);
+
+        /**
+         * 保存模块依赖图的路径。扩展名为 .dot 时保存为 Graphviz DOT 格式，否则保存为 JSON 格式。路径为相对于 tpack.basePath 的相对路径。
+         * @example ["modules.json", "modules.dot"]
+         * @default 不保存
+         */
+        graph?: string | string[];
+
+        /**
+         * 保存打包报告的路径。报告列出每个生成的文件包含的模块及其原始大小、压缩后大小、gzip 后大小和占比，并按 npm 包分组。扩展名为 .html 时保存为可视化的矩形树图，否则保存为 JSON 格式。路径为相对于 tpack.basePath 的相对路径。
+         * @example ["report.html", "report.json"]
+         * @default 不保存
+         */
+        report?: string | string[];
+
         /**
          * 在最终输出目标文件时追加的前缀。
          * @example "/* This file is generated by tpack at $NOW. DO NOT EDIT DIRECTLY!! *\/"
@@ -1643,19 +2298,176 @@ declare module "tpack/src/buildFile" {
  * 获取指定文件对应的模块。
  * @param file 要处理的文件。
  * @param options 创建模块的配置。
+ * @param defines 模块首次载入时继承的 #define 定义。
  * @returns 返回模块对象。
  */
-export function getModule(file: BuildFile, options: ModuleOptions) {
+export function getModule(file: BuildFile, options: ModuleOptions, defines?: { name: string, value: any, defined: boolean, sourceIndex: number }[]) {
+
+    // 不重复创建模块；已创建但未载入的模块（如由打包器添加的模块）在此载入。
+    let module = file.webModule || (file.webModule = createModule(file, options));
+    module.load(defines);
+    return module;
+
+}
+
+/**
+ * 记录指定模块被另一个模块包含、依赖或排除。
+ * @param module 被包含、依赖或排除的模块。
+ * @param dependent 包含、依赖或排除的模块。
+ */
+export function addDependent(module: BuildModule, dependent: BuildModule) {
+    module.dependents = module.dependents || [];
+    if (module.dependents.indexOf(dependent) < 0) module.dependents.push(dependent);
+}
+
+/**
+ * 删除指定模块列表中记录的被另一个模块包含、依赖或排除的关系。
+ * @param modules 被包含、依赖或排除的模块列表。
+ * @param dependent 包含、依赖或排除的模块。
+ */
+function removeDependent(modules: BuildModule[], dependent: BuildModule) {
+    if (!modules) return;
+    for (let i = 0; i < modules.length; i++) {
+        let index = modules[i].dependents ? modules[i].dependents.indexOf(dependent) : -1;
+        if (index >= 0) modules[i].dependents.splice(index, 1);
+    }
+}
+
+/**
+ * 存储按 output.fileName 重命名前的文件名。
+ */
+var originalNames = new WeakMap<BuildFile, string>();
+
+/**
+ * 表示一个模块在生成的文件中的内容。
+ */
+export interface BundleContent {
+
+    /**
+     * 写入的模块。
+     */
+    module: BuildModule;
+
+    /**
+     * 模块生成的代码（包括模块包装函数）。
+     */
+    content: string;
+
+}
+
+/**
+ * 判断指定的字符串是否是合法的宏名称。
+ * @param value 要判断的字符串。
+ */
+function isMacroName(value: string) {
+    return /^[a-zA-Z\u4e00-\u9fa5_$][\w\u4e00-\u9fa5$]*$/.test(value);
+}
+
+/**
+ * 存储已报告的循环中的所有依赖。
+ */
+var reportedCircularRequires = new WeakSet<ModuleDependency>();
 
-    // 不重复解析模块。
-    if (file.webModule) return file.webModule;
+/**
+ * 计算模块源文件中指定位置的行列号。
+ * @param module 相关的模块。
+ * @param index 要计算的位置。
+ * @returns 返回从 0 开始的行列号。如果位置无效则返回 null。
+ */
+export function getSourceLocation(module: BuildModule, index: number) {
+    if (index < 0) return null;
+    let content = module.source.content;
+    let line = 0;
+    let lineStart = 0;
+    for (let i = 0; i < index && i < content.length; i++) {
+        let ch = content.charCodeAt(i);
+        if (ch === 10 /*\n*/ || ch === 13 /*\r*/ && content.charCodeAt(i + 1) !== 10) {
+            line++;
+            lineStart = i + 1;
+        }
+    }
+    return { line, column: index - lineStart };
+}
+
+/**
+ * 判断模块是否匹配指定的通配符或正则表达式。
+ * @param module 要判断的模块。
+ * @param patterns 通配符、正则表达式或它们组成的数组。
+ */
+function matchPatterns(module: BuildModule, patterns: string | RegExp | (string | RegExp)[]) {
+    if (Array.isArray(patterns)) {
+        return patterns.some(pattern => matchPatterns(module, pattern));
+    }
+    return patterns instanceof RegExp ? patterns.test(module.path) : module.file.match(patterns);
+}
+
+/**
+ * 存储正在记录生成内容的输出器。
+ */
+var recordingWriter: Writer;
+
+/**
+ * 存储生成的文件中各模块的内容。
+ */
+var bundleContents = new WeakMap<BuildFile, BundleContent[]>();
+
+/**
+ * 获取生成的文件中各模块的内容。仅当设置 output.report 时有效。
+ * @param file 生成的文件。
+ * @returns 返回各模块的内容。如果文件未记录则返回 undefined。
+ */
+export function getBundleContents(file: BuildFile) {
+    return bundleContents.get(file);
+}
+
+/**
+ * 创建将内联代码映射回所在模块的源映射。
+ * @param module 内联代码所在的模块。
+ * @param index 内联代码在模块源码中的起始位置。
+ * @param content 内联代码。
+ * @returns 返回源映射。如果所在模块存在源映射（如由其它编译器生成），则返回合并后的源映射。
+ */
+export function createInlineSourceMap(module: BuildModule, index: number, content: string) {
+
+    // 计算内联代码在源码中的行列号。
+    let prefix = module.content.substring(0, index);
+    let line = prefix.split(/\r\n?|\n/).length - 1;
+    let column = index - Math.max(prefix.lastIndexOf("\n"), prefix.lastIndexOf("\r")) - 1;
+
+    // 内联代码的每个片段（单词或符号）都映射到源码的对应位置，以便合并其它编译器生成的源映射后仍能定位到列。
+    let result = new digo.SourceMapBuilder();
+    let lines = content.split(/\r\n?|\n/);
+    for (let i = 0; i < lines.length; i++) {
+        let offset = i ? 0 : column;
+        result.addMapping(i, 0, module.path, line + i, offset);
+        lines[i].replace(/[\w$]+|[^\w$\s]/g, (segment: string, segmentIndex: number) => {
+            if (segmentIndex) result.addMapping(i, segmentIndex, module.path, line + i, offset + segmentIndex);
+            return "";
+        });
+    }
+
+    // 合并源码本身的源映射。
+    if (module.source.sourceMapData) {
+        result.applySourceMap(digo.toSourceMapBuilder(module.source.sourceMapData), module.path);
+    }
+
+    return result;
+}
+
+/**
+ * 创建指定文件对应的新模块。
+ * @param file 要处理的文件。
+ * @param options 创建模块的配置。
+ * @returns 返回未载入的模块对象。
+ */
+export function createModule(file: BuildFile, options: ModuleOptions) {
 
     // 获取针对当前文件的配置。
     options = options || {};
 
     // 如果当前配置被禁用，则不解析。
     if (options.test && options.test(file) === false) {
-        return file.webModule = new (require("./resource").ResourceModule)(file, options) as BuildModule;
+        return new (require("./resource").ResourceModule)(file, options) as BuildModule;
     }
 
     // 确定最终适合当前模块的配置。
@@ -1698,9 +2510,7 @@ export function getModule(file: BuildFile, options: ModuleOptions) {
     }
 
     // 新建模块。
-    let module = file.webModule = new (moduleClass as new (file: BuildFile, options: ModuleOptions) => BuildModule)(file, actualOptions);
-    module.load();
-    return module;
+    return new (moduleClass as new (file: BuildFile, options: ModuleOptions) => BuildModule)(file, actualOptions);
 
 }
 
@@ -1785,8 +2595,9 @@ export var types = {
  * 从指定的配置复制到目标对象。
  * @param dest 复制的目标对象。
  * @param src 复制的源对象。
+ * @returns 返回目标对象。
  */
-function copyOptions<T>(dest: T, src: T) {
+export function copyOptions<T>(dest: T, src: T) {
     for (let key in src) {
         let value = src[key];
 
@@ -1911,6 +2722,38 @@ export interface ResolveUrlResult {
 
 }
 
+/**
+ * 表示模块间的一个依赖关系。
+ */
+export interface ModuleDependency {
+
+    /**
+     * 依赖关系的类型。
+     */
+    type: "ref" | "include" | "require" | "external";
+
+    /**
+     * 依赖的来源名。如 "#include"、"require"、"@import"、"src"、"href"、"inline"。
+     */
+    name: string;
+
+    /**
+     * 目标模块。
+     */
+    module: BuildModule;
+
+    /**
+     * 相关的代码片段。
+     */
+    source: string;
+
+    /**
+     * *source* 在源文件的起始位置。如果依赖来自配置则为 -1。
+     */
+    sourceIndex: number;
+
+}
+
 var processQueryCache: { [key: string]: RegExp };
 
 /**
@@ -1933,6 +2776,104 @@ export function resolveQuery(obj: ResolveUrlResult, name: string) {
     return null;
 }
 
+/**
+ * 获取指定配置用于解析缓存的键。
+ * @param options 模块的配置。
+ * @remark 配置可能在创建后被修改（如开发服务器开启热更新），因此每次都根据当前的值重新计算。
+ */
+function getOptionsKey(options: ModuleOptions) {
+    return JSON.stringify(options, (key, value) => typeof value === "function" || value instanceof RegExp ? value.toString() : value);
+}
+
+/**
+ * 表示一个模块的解析缓存。
+ */
+interface ModuleCache {
+
+    /**
+     * 源内容和配置的哈希值。
+     */
+    hash: string;
+
+    /**
+     * 扫描源码的结果。键为扫描的名称。
+     */
+    scans: { [name: string]: any };
+
+    /**
+     * 解析地址的结果。键为地址的使用场景和地址。
+     */
+    resolves: { [key: string]: { path: string, stats: { [path: string]: number } } };
+
+}
+
+/**
+ * 判断缓存依赖的文件是否都未更改。
+ * @param stats 影响缓存结果的文件及其最后修改时间。
+ */
+function isCacheValid(stats: { [path: string]: number }) {
+    for (let path in stats) {
+        if (getModifiedTime(path) !== stats[path]) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * 获取影响全局模块搜索结果的文件及其最后修改时间。
+ * @param dirPath 开始搜索的文件夹路径。
+ * @param path 搜索到的路径。
+ * @param modulesDirectories 搜索的模块文件夹。
+ */
+function getResolveStats(dirPath: string, path: string, modulesDirectories: string[]) {
+    let result: { [path: string]: number } = {};
+
+    // 各级模块文件夹的增删都可能影响搜索结果。
+    for (let dir = dirPath, parent: string; ; dir = parent) {
+        for (let i = 0; i < modulesDirectories.length; i++) {
+            let modulesDir = Path.join(dir, modulesDirectories[i]);
+            result[modulesDir] = getModifiedTime(modulesDir);
+        }
+        parent = Path.dirname(dir);
+        if (parent.length === dir.length) break;
+    }
+
+    // 包内各级 package.json 可能修改入口。
+    for (let dir = Path.dirname(path); modulesDirectories.indexOf(Path.basename(dir)) < 0; ) {
+        let packageJson = Path.join(dir, "package.json");
+        result[packageJson] = getModifiedTime(packageJson);
+        let parent = Path.dirname(dir);
+        if (parent.length === dir.length) break;
+        dir = parent;
+    }
+
+    return result;
+}
+
+/**
+ * 获取文件或文件夹的最后修改时间。
+ * @param path 要获取的路径。
+ * @returns 如果路径不存在则返回 -1。
+ */
+function getModifiedTime(path: string) {
+    try {
+        return FS.statSync(path).mtime.getTime();
+    } catch (e) {
+        return -1;
+    }
+}
+
+/**
+ * 确保指定的文件夹存在。
+ * @param dir 要创建的文件夹。
+ */
+function ensureDir(dir: string) {
+    if (IO.existsDir(dir)) return;
+    ensureDir(Path.dirname(dir));
+    FS.mkdirSync(dir);
+}
+
 /**
  * 搜索 node_modules 下的模块路径。
  * @param dirPath 要搜索的文件夹路径。
@@ -1,21 +1,88 @@
 
+import * as Path from "path";
 import * as digo from "digo";
-import { Module } from "./module";
+import { BuildFile } from "tpack/src/buildFile";
+import { BuildModule, ModuleOptions, ModuleType, ModuleTarget, createModule, copyOptions } from "./module";
+import { JsModule, JsOptions } from "./js";
+import { CssOptions } from "./css";
+import { HtmlOptions } from "./html";
+import { DevServer, DevServerOptions } from "./server";
+import { createModuleGraph, formatModuleGraph, findDependencyChain, formatDependencyChain } from "./graph";
+import { createBundleReport, formatBundleReport } from "./report";
 
 /**
  * 表示一个模块打包器。
  */
 export class Packer {
 
-    modules: Module;
+    /**
+     * 获取当前打包器的解析配置。
+     */
+    options: ModuleOptions;
+
+    /**
+     * 初始化新的打包器。
+     * @param options 解析模块的配置。
+     */
+    constructor(options?: ModuleOptions) {
+        this.options = options || {};
+    }
+
+    /**
+     * 获取所有已添加的入口模块。
+     */
+    modules: BuildModule[] = [];
+
+    /**
+     * 获取所有曾经构建的入口模块。监听模式下，依赖的模块更改后这些模块会重新生成。
+     */
+    private _entries: BuildModule[] = [];
+
+    /**
+     * 存储等待打包完成的回调。
+     */
+    private _pendings: (() => void)[] = [];
+
+    /**
+     * 存储上次解析后已更改的文件。
+     */
+    private _changedFiles: BuildFile[] = [];
 
     /**
      * 创建指定文件对应的新模块。
+     * @param file 要处理的文件。
+     * @param options 创建模块的配置。
+     * @returns 返回模块对象。如果文件已被其它模块依赖，则返回已有的模块。
      */
-    createModule(file: digo.File) {
-        const result = new Module();
+    createModule(file: BuildFile, options = this.options) {
+        // 监听模式下已生成的文件被再次添加，说明文件已更改，需要重新解析。
+        if (file.webModule && file.webModule.saved) {
+            this.invalidate(file.webModule);
+            if (this._changedFiles.indexOf(file) < 0) this._changedFiles.push(file);
+        }
 
-        return result;
+        return file.webModule || (file.webModule = createModule(file, options));
+    }
+
+    /**
+     * 使指定的模块及直接或间接包含、依赖它的模块失效，并在下次解析时重新生成受影响的入口模块。
+     * @param module 已更改的模块。
+     * @returns 返回所有失效的模块。
+     */
+    invalidate(module: BuildModule) {
+        const invalidated = module.invalidate();
+        for (const oldModule of invalidated) {
+            const index = this._entries.indexOf(oldModule);
+            if (index >= 0) {
+                const entry = this._entries[index] = oldModule.file.webModule;
+                if (this.modules.indexOf(entry) < 0) this.modules.push(entry);
+            }
+        }
+        digo.info("Rebuilding {count} module(s): {modules}", {
+            count: invalidated.length,
+            modules: invalidated.map(oldModule => digo.getDisplayName(oldModule.path)).join(", ")
+        });
+        return invalidated;
     }
 
     /**
@@ -23,9 +90,360 @@ export class Packer {
      * @param module 要构建的模块。
      * @param done 构建完成的回调。
      */
-    buildModule(module: Module, done: () => void) {
+    buildModule(module: BuildModule, done: () => void) {
+        if (this.modules.indexOf(module) < 0) this.modules.push(module);
+        if (this._entries.indexOf(module) < 0) this._entries.push(module);
+
+        // 所有模块都添加后才能确定各模块的配置和依赖关系，因此等到 resolve() 时再解析和保存。
+        this._pendings.push(done);
+    }
+
+    /**
+     * 解析并保存所有已添加的模块。
+     * @remark 应在所有文件都添加之后调用。
+     */
+    resolve() {
+
+        // 已作为依赖项载入的模块不会重复解析。
+        for (const module of this.modules) {
+            module.load();
+        }
+
+        // 确定依赖关系后再提取公共模块。
+        this.extractCommon();
+
+        for (const module of this.modules) {
+            module.save();
+        }
+
+        this.saveGraph();
+        this.saveReport();
+
+        // 通知开发服务器。
+        if (this.server) {
+            this.server.update(this.getOutputFiles(), this.server.options.hot ? this.getHotUpdates() : null);
+        }
+
+        this.modules.length = 0;
+        this._changedFiles.length = 0;
+
+        const pendings = this._pendings;
+        this._pendings = [];
+        for (const done of pendings) {
+            done();
+        }
+    }
+
+    /**
+     * 提取所有 JS 入口模块的公共依赖到独立的公共模块。
+     */
+    protected extractCommon() {
+        const options = (this.options as JsOptions).js && (this.options as JsOptions).js.common;
+        if (!options) return;
+
+        const entries = this.modules.filter(module => module.type === ModuleType.js);
+        if (!entries.length) return;
+
+        // 统计每个模块被多少个入口模块依赖。
+        const requires: BuildModule[] = [];
+        const counts: number[] = [];
+        for (const entry of entries) {
+            for (const module of entry.getAllRequires()) {
+                if (module === entry) continue;
+                const index = requires.indexOf(module);
+                if (index < 0) {
+                    requires.push(module);
+                    counts.push(1);
+                } else {
+                    counts[index]++;
+                }
+            }
+        }
+
+        // 筛选需要提取的模块。
+        const minEntries = options.minEntries != null ? options.minEntries : 2;
+        const test = options.test;
+        const commons = requires.filter((module, index) => counts[index] >= minEntries || test != null && (
+            typeof test === "function" ? (test as (module: BuildModule) => boolean)(module) :
+                test instanceof RegExp ? test.test(module.path) :
+                    module.file.match(test)));
+        if (!commons.length) return;
+
+        // 创建公共模块。公共模块包含加载器，应在入口模块之前载入。
+        const builder = entries[0].file.builder;
+        const common = new JsModule(builder.createFile(Path.resolve(builder.basePath, options.path)), this.options);
+        common.file.webModule = common;
+        common.setDefaultTarget(ModuleTarget.tpack);
+        for (const module of commons) {
+            common.require("(options: js.common)", -1, module, "common");
+        }
+
+        // 入口模块排除公共模块及其依赖。
+        for (const entry of entries) {
+            entry.external("(options: js.common)", -1, common, "common");
+        }
+
+        this.modules.push(common);
+    }
+
+    // #region 依赖图
+
+    /**
+     * 获取所有入口模块的依赖图。
+     */
+    getGraph() {
+        return createModuleGraph(this.getEntries());
+    }
+
+    /**
+     * 获取所有曾经构建的入口模块和本次生成的公共模块。
+     */
+    private getEntries() {
+        return this._entries.concat(this.modules.filter(module => this._entries.indexOf(module) < 0));
+    }
+
+    /**
+     * 根据配置保存依赖图。
+     */
+    protected saveGraph() {
+        const paths = this.options.output && this.options.output.graph;
+        if (!paths || !this.modules.length) return;
+        const graph = this.getGraph();
+        for (const path of typeof paths === "string" ? [paths] : paths) {
+            this.writeOutputFile(path, /\.dot$/i.test(path) ? formatModuleGraph(graph) : JSON.stringify(graph, null, 2));
+        }
+    }
+
+    /**
+     * 写入依赖图、打包报告等附加文件。所在文件夹不存在时会自动创建。
+     * @param path 要写入的路径（相对于 tpack.basePath）。
+     * @param content 要写入的内容。
+     */
+    private writeOutputFile(path: string, content: string) {
+        const fullPath = Path.resolve(this.modules[0].file.builder.basePath, path);
+        try {
+            digo.writeFile(fullPath, content);
+        } catch (e) {
+            digo.error("Cannot write file: '{path}'. {error}", { path: digo.getDisplayName(fullPath), error: e.message });
+        }
+    }
+
+    /**
+     * 查找并打印指定模块被入口模块包含的最短依赖链。
+     * @param path 要查找的模块路径。
+     * @param entry 入口模块的路径。默认查找所有入口模块。
+     * @returns 如果任一入口模块包含指定模块则返回 true，否则返回 false。
+     */
+    why(path: string, entry?: string) {
+        const fullPath = Path.resolve(path);
+        let found = false;
+        for (const entryModule of this.getEntries()) {
+            if (entry != null && entryModule.path !== Path.resolve(entry)) continue;
+            const chain = findDependencyChain(entryModule, fullPath);
+            if (!chain) continue;
+            digo.info(formatDependencyChain(entryModule, chain));
+            found = true;
+        }
+        if (!found) {
+            digo.info("Module '{module}' is not included in any entry module.", { module: digo.getDisplayName(fullPath) });
+        }
+        return found;
+    }
+
+    // #endregion
+
+    // #region 打包报告
+
+    /**
+     * 获取本次生成的所有文件（包括导出的 CSS 文件和分包）。
+     */
+    getOutputFiles() {
+        const files: BuildFile[] = [];
+        for (const module of this.modules) {
+            if (files.indexOf(module.file) < 0) files.push(module.file);
+            addOutputFiles(module, files);
+        }
+        return files;
+    }
+
+    /**
+     * 根据配置保存本次生成的文件的打包报告。
+     */
+    protected saveReport() {
+        const paths = this.options.output && this.options.output.report;
+        if (!paths || !this.modules.length) return;
+        const report = createBundleReport(this.getOutputFiles());
+        for (const path of typeof paths === "string" ? [paths] : paths) {
+            this.writeOutputFile(path, /\.html?$/i.test(path) ? formatBundleReport(report) : JSON.stringify(report, null, 2));
+        }
+    }
+
+    // #endregion
+
+    // #region 开发服务器
+
+    /**
+     * 获取当前使用的开发服务器。
+     */
+    server: DevServer;
+
+    /**
+     * 获取当前打包器所在的根文件列表。开发服务器未在监听模式下启动时，将监听此列表的文件。
+     */
+    root: digo.FileList;
+
+    /**
+     * 启动开发服务器。服务器直接从内存提供生成的文件，并在每次重新生成后通知浏览器刷新。如果未使用监听模式，则自动开始监听源文件。
+     * @param options 服务器的配置。
+     * @returns 返回服务器对象。
+     */
+    serve(options?: DevServerOptions) {
+        const htmlOptions = this.options as HtmlOptions;
+        htmlOptions.html = htmlOptions.html || {};
+        if (htmlOptions.html.liveReload == null) htmlOptions.html.liveReload = true;
+        if (options && options.hot) {
+            const jsOptions = this.options as JsOptions;
+            jsOptions.js = jsOptions.js || {};
+            if (jsOptions.js.require !== false) {
+                jsOptions.js.require = jsOptions.js.require || {};
+                if (jsOptions.js.require.hot == null) jsOptions.js.require.hot = true;
+            }
+        }
+        this.server = new DevServer(options);
+        this.server.start();
+
+        // 只有监听模式下文件更改后才会重新生成并通知浏览器。
+        if (!digo.watcher && this.root instanceof digo.RootFileList) {
+            digo.watch(() => { }).rootLists.push(this.root);
+        }
+
+        return this.server;
+    }
+
+    /**
+     * 存储各入口模块的热替换更新文件。键为入口模块的路径。
+     */
+    private _hotUpdateFiles: { [path: string]: BuildFile } = { __proto__: null };
+
+    /**
+     * 生成已更改模块的热替换更新代码。
+     * @returns 返回各入口模块的更新代码。键为入口模块的访问路径。
+     */
+    protected getHotUpdates() {
+        const result: { [path: string]: string } = {};
+        const changed = this._changedFiles.map(file => file.webModule);
+        for (const entry of this.modules) {
+            if (!(entry instanceof JsModule)) continue;
+            const moduleList = entry.getAllRequires().filter(module => changed.indexOf(module) >= 0);
+            if (!moduleList.length) continue;
+
+            // 更新代码中的模块地址相对于入口模块。每个入口模块只使用一个更新文件。
+            const file = this._hotUpdateFiles[entry.file.path] || (this._hotUpdateFiles[entry.file.path] = entry.file.builder.createFile(entry.file.path + ".hot-update.js"));
+            file.webModule = entry;
+            const writer = file.createWriter(false);
+            const path = "/" + entry.file.name.replace(/\\/g, "/");
+            if (entry.writeHotUpdate(writer, moduleList, path)) {
+                writer.end();
+                result[path] = file.content;
+            }
+        }
+        return result;
+    }
+
+    // #endregion
+
+    // #region 子处理器
+
+    /**
+     * 获取分发文件的列表。仅当插件配置为分发函数时有效。
+     */
+    list: digo.FileList;
+
+    /**
+     * 将文件添加到分发列表，由分发函数指定的子处理器负责构建。
+     * @param file 要添加的文件。
+     * @param done 构建完成的回调。
+     */
+    dispatch(file: BuildFile, done: () => void) {
+        this.list.add(file);
+        this._pendings.push(done);
+    }
+
+    /**
+     * 以 JS 模块方式构建文件的处理器。
+     */
+    js = this.createProcessor<JsOptions>("js", options => options);
+
+    /**
+     * 以 CSS 模块方式构建文件的处理器。
+     */
+    css = this.createProcessor<CssOptions>("css", options => options);
+
+    /**
+     * 以 HTML 模块方式构建文件的处理器。
+     */
+    html = this.createProcessor<HtmlOptions>("html", options => options);
+
+    /**
+     * 以二进制资源方式构建文件的处理器。被引用时文件将以 base64 地址内联。
+     */
+    base64 = this.createProcessor<Base64Options>("binary", options => ({
+        inline: options && options.limit != null ? options.limit : true
+    }));
 
+    /**
+     * 创建一个强制使用指定模块类型的处理器。
+     * @param type 模块的类型。
+     * @param createOptions 将处理器配置转换为模块配置的函数。
+     * @returns 返回处理器对象。
+     */
+    private createProcessor<T>(type: ModuleOptions["type"], createOptions: (options: T) => ModuleOptions): digo.Processor<T> {
+        return {
+            name: `WebPack.${type}`,
+            add: (file: BuildFile, options: T, done: () => void) => {
+                const moduleOptions = copyOptions({} as ModuleOptions, this.options);
+                const overrides = createOptions(options);
+                if (overrides) copyOptions(moduleOptions, overrides);
+                moduleOptions.type = type;
+                this.buildModule(this.createModule(file, moduleOptions), done);
+            }
+        };
     }
 
+    // #endregion
+
 }
 
+/**
+ * 添加指定模块生成的其它文件（导出的 CSS 文件和分包）。
+ * @param module 已生成的模块。
+ * @param files 要添加到的文件列表。
+ */
+function addOutputFiles(module: BuildModule, files: BuildFile[]) {
+    if (module.extractCss && files.indexOf(module.extractCss.file) < 0) {
+        files.push(module.extractCss.file);
+    }
+    for (const required of module.getAllRequires()) {
+        const asyncRequires = (required as JsModule).asyncRequires;
+        if (!asyncRequires) continue;
+        for (const asyncModule of asyncRequires) {
+            if (asyncModule.chunk && files.indexOf(asyncModule.chunk) < 0) {
+                files.push(asyncModule.chunk);
+                addOutputFiles(asyncModule, files);
+            }
+        }
+    }
+}
+
+/**
+ * 表示 base64 处理器的配置。
+ */
+export interface Base64Options {
+
+    /**
+     * 允许内联的最大字节数。超过此大小的文件仍以地址方式引用。
+     * @default 不限制
+     */
+    limit?: number;
+
+}
@@ -0,0 +1,259 @@
+﻿/**
+ * @file 打包报告。
+ */
+import * as Path from "path";
+import * as Zlib from "zlib";
+import { BuildFile } from "tpack/src/buildFile";
+import { BuildModule, getBundleContents } from "./module";
+import { Token, TokenType, tokenize } from "./tokenizer";
+
+/**
+ * 表示一个打包报告。
+ */
+export interface BundleReport {
+
+    /**
+     * 所有生成的文件。
+     */
+    bundles: BundleReportItem[];
+
+}
+
+/**
+ * 表示打包报告中的一个大小统计。
+ */
+export interface BundleReportSize {
+
+    /**
+     * 原始字节数。
+     */
+    size: number;
+
+    /**
+     * 删除注释和空白后的字节数。
+     */
+    minSize: number;
+
+    /**
+     * gzip 后的字节数。
+     */
+    gzipSize: number;
+
+    /**
+     * 原始大小占所在文件的比例（0-1）。
+     */
+    share: number;
+
+}
+
+/**
+ * 表示打包报告中的一个生成的文件。
+ */
+export interface BundleReportItem extends BundleReportSize {
+
+    /**
+     * 生成的文件名。
+     */
+    path: string;
+
+    /**
+     * 按 npm 包分组的模块。不在包内的模块归入名为 "." 的分组。
+     */
+    packages: BundleReportPackage[];
+
+}
+
+/**
+ * 表示打包报告中的一个 npm 包。
+ */
+export interface BundleReportPackage extends BundleReportSize {
+
+    /**
+     * 包名。
+     */
+    name: string;
+
+    /**
+     * 包内的模块。
+     */
+    modules: BundleReportModule[];
+
+}
+
+/**
+ * 表示打包报告中的一个模块。
+ */
+export interface BundleReportModule extends BundleReportSize {
+
+    /**
+     * 模块的源地址。
+     */
+    path: string;
+
+}
+
+/**
+ * 创建指定生成文件的打包报告。
+ * @param files 生成的文件。未记录模块内容的文件会被忽略。
+ * @returns 返回报告对象。
+ * @remark 压缩后大小是删除注释和多余空白的估算值；模块的 gzip 后大小是单独压缩的结果，其总和通常大于整个文件 gzip 后的大小。
+ */
+export function createBundleReport(files: BuildFile[]) {
+    const result: BundleReport = { bundles: [] };
+    for (const file of files) {
+        const contents = getBundleContents(file);
+        if (!contents) continue;
+        const ext = Path.extname(file.name);
+        const bundle: BundleReportItem = Object.assign({ path: file.name.replace(/\\/g, "/"), packages: [] }, measure(file.content, ext, Buffer.byteLength(file.content)));
+        for (const item of contents) {
+            const name = getPackageName(item.module);
+            let pkg = bundle.packages.filter(pkg => pkg.name === name)[0];
+            if (!pkg) {
+                bundle.packages.push(pkg = { name, size: 0, minSize: 0, gzipSize: 0, share: 0, modules: [] });
+            }
+            const module = Object.assign({ path: item.module.path }, measure(item.content, ext, bundle.size));
+            pkg.modules.push(module);
+            pkg.size += module.size;
+            pkg.minSize += module.minSize;
+            pkg.gzipSize += module.gzipSize;
+            pkg.share += module.share;
+        }
+        bundle.packages.sort((x, y) => y.size - x.size);
+        result.bundles.push(bundle);
+    }
+    return result;
+}
+
+/**
+ * 将打包报告转为可视化的 HTML 矩形树图。
+ * @param report 要转换的报告。
+ * @returns 返回 HTML 源码。
+ */
+export function formatBundleReport(report: BundleReport) {
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Bundle Report</title>
+<style>
+body { margin: 0; font: 12px sans-serif; }
+h2 { margin: 0; padding: 8px; font-size: 14px; background: #333; color: #fff; }
+.map { position: relative; height: 480px; }
+.map div { position: absolute; box-sizing: border-box; overflow: hidden; border: 1px solid #fff; padding: 2px; }
+</style>
+</head>
+<body>
+<script>
+var report = ${JSON.stringify(report).replace(/</g, "\\u003c")};
+function kb(size) { return (size / 1024).toFixed(2) + " KB"; }
+function layout(parent, items, x, y, w, h, depth) {
+    var total = 0;
+    for (var i = 0; i < items.length; i++) total += items[i].size;
+    for (var i = 0; i < items.length; i++) {
+        var item = items[i], ratio = total ? item.size / total : 0, horizontal = w >= h;
+        var div = document.createElement("div");
+        var iw = horizontal ? w * ratio : w, ih = horizontal ? h : h * ratio;
+        div.style.cssText = "left:" + x + "px;top:" + y + "px;width:" + iw + "px;height:" + ih + "px;background:hsl(" + (i * 47 % 360) + "," + (depth ? 50 : 70) + "%," + (depth ? 80 : 65) + "%)";
+        div.title = (item.name || item.path) + "\\nsize: " + kb(item.size) + "\\nminified: " + kb(item.minSize) + "\\ngzip: " + kb(item.gzipSize) + "\\nshare: " + (item.share * 100).toFixed(1) + "%";
+        div.textContent = (item.name || item.path.replace(/^.*[\\\\\\/]/, "")) + " " + kb(item.size);
+        parent.appendChild(div);
+        if (item.modules) layout(parent, item.modules, x + 2, y + 16, Math.max(iw - 4, 0), Math.max(ih - 18, 0), depth + 1);
+        horizontal ? x += iw : y += ih;
+    }
+}
+for (var i = 0; i < report.bundles.length; i++) {
+    var bundle = report.bundles[i];
+    var title = document.createElement("h2");
+    title.textContent = bundle.path + " (" + kb(bundle.size) + ", minified " + kb(bundle.minSize) + ", gzip " + kb(bundle.gzipSize) + ")";
+    document.body.appendChild(title);
+    var map = document.createElement("div");
+    map.className = "map";
+    document.body.appendChild(map);
+    layout(map, bundle.packages, 0, 0, map.offsetWidth, map.offsetHeight, 0);
+}
+</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * 统计指定内容的大小。
+ * @param content 要统计的内容。
+ * @param ext 所在文件的扩展名。
+ * @param total 所在文件的原始字节数。
+ */
+function measure(content: string, ext: string, total: number) {
+    const size = Buffer.byteLength(content);
+    return {
+        size,
+        minSize: Buffer.byteLength(minify(content, ext)),
+        gzipSize: Zlib.gzipSync(Buffer.from(content)).length,
+        share: total ? size / total : 0
+    };
+}
+
+/**
+ * 删除代码中的注释和多余空白。
+ * @param content 要处理的代码。
+ * @param ext 所在文件的扩展名。
+ * @returns 返回处理后的代码。
+ */
+function minify(content: string, ext: string) {
+    switch (ext.toLowerCase()) {
+        case ".js":
+            return minifyJs(content);
+        case ".css":
+            return content.replace(/\/\*[\s\S]*?(?:\*\/|$)/g, "").replace(/\s+/g, " ").replace(/\s*([{};:,>])\s*/g, "$1").trim();
+        default:
+            return content;
+    }
+}
+
+/**
+ * 删除 JS 代码中的注释和多余空白。
+ * @param content 要处理的代码。
+ * @returns 返回处理后的代码。
+ */
+function minifyJs(content: string) {
+    let result = "";
+    let prev: Token;
+    for (const token of tokenize(content)) {
+        if (token.type === TokenType.singleComment || token.type === TokenType.multiComment) continue;
+
+        // 换行可能影响自动插入分号，相邻的单词之间需要保留空格。
+        if (prev && token.newLine) {
+            result += "\n";
+        } else if (prev && isWord(prev.type) && isWord(token.type)) {
+            result += " ";
+        }
+        result += content.substring(token.start, token.end);
+        prev = token;
+    }
+    return result;
+}
+
+/**
+ * 判断指定类型的标记是否是单词。
+ * @param type 要判断的类型。
+ */
+function isWord(type: TokenType) {
+    return type === TokenType.identifier || type === TokenType.number;
+}
+
+/**
+ * 获取模块所在的 npm 包名。
+ * @param module 要处理的模块。
+ * @returns 返回包名（如 "react"、"@babel/runtime"）。如果模块不在包内则返回 "."。
+ */
+function getPackageName(module: BuildModule) {
+    const options = module.options.resolve;
+    const modulesDirectories = options && options.modulesDirectories || ["web_modules", "node_modules"];
+    const parts = module.path.split(/[\\\/]/);
+    for (let i = parts.length - 2; i >= 0; i--) {
+        if (modulesDirectories.indexOf(parts[i]) >= 0 && i + 1 < parts.length - 1) {
+            return parts[i + 1].charCodeAt(0) === 64 /*@*/ && i + 2 < parts.length - 1 ? parts[i + 1] + "/" + parts[i + 2] : parts[i + 1];
+        }
+    }
+    return ".";
+}
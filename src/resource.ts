@@ -21,7 +21,11 @@ export class ResourceModule extends BuildModule {
     /**
      * 将模块信息保存到源文件。
      */
-    save() { }
+    save() {
+        if (this.saved) return;
+        this.saved = true;
+        this.renameFile(this.file);
+    }
 
 }
 
@@ -0,0 +1,314 @@
+﻿/**
+ * @file 开发服务器。
+ */
+import * as FS from "fs";
+import * as Http from "http";
+import * as Path from "path";
+import * as Crypto from "crypto";
+import * as digo from "digo";
+import { BuildFile } from "tpack/src/buildFile";
+
+/**
+ * 表示一个开发服务器。服务器直接从内存提供生成的文件，并在重新生成后通知浏览器刷新。
+ */
+export class DevServer {
+
+    /**
+     * 获取当前服务器的配置。
+     */
+    options: DevServerOptions;
+
+    /**
+     * 初始化新的开发服务器。
+     * @param options 服务器的配置。
+     */
+    constructor(options?: DevServerOptions) {
+        this.options = options || {};
+    }
+
+    /**
+     * 获取底层的 HTTP 服务器。
+     */
+    server: Http.Server;
+
+    /**
+     * 获取服务器的根地址。
+     */
+    get url() {
+        return `http://${this.options.host || "localhost"}:${this.options.port || 8080}/`;
+    }
+
+    /**
+     * 启动服务器。
+     * @param callback 启动完成的回调。
+     */
+    start(callback?: () => void) {
+        this.server = Http.createServer((req, res) => this.handleRequest(req, res));
+        this.server.listen(this.options.port || 8080, this.options.host, () => {
+            digo.info("Server running at {url}", { url: this.url });
+            callback && callback();
+        });
+    }
+
+    /**
+     * 停止服务器。
+     * @param callback 停止完成的回调。
+     */
+    stop(callback?: () => void) {
+        for (const client of this._clients) {
+            client.end();
+        }
+        this._clients.length = 0;
+        this.server.close(callback);
+    }
+
+    // #region 文件
+
+    /**
+     * 存储所有已生成的文件。键为文件的访问路径。
+     */
+    private _files: { [path: string]: BuildFile } = { __proto__: null };
+
+    /**
+     * 存储已生成文件的内容哈希值，用于判断重新生成后文件是否更改。
+     */
+    private _hashes: { [path: string]: string } = { __proto__: null };
+
+    /**
+     * 存储模块热替换的更新代码。键为更新代码的访问路径。每个文件只保留最新的更新代码。
+     */
+    private _hotUpdates: { [path: string]: string } = { __proto__: null };
+
+    /**
+     * 存储各文件最新的更新代码的访问路径。键为文件的访问路径。
+     */
+    private _hotUpdateUrls: { [path: string]: string } = { __proto__: null };
+
+    /**
+     * 存储已生成的热替换更新数。
+     */
+    private _hotUpdateCount = 0;
+
+    /**
+     * 更新已生成的文件并通知浏览器刷新。
+     * @param files 本次生成的文件。
+     * @param hotUpdates 已生成文件对应的模块热替换更新代码。键为文件的访问路径。
+     * @remark 如果更改的文件都是 CSS 文件，浏览器只替换样式表而不刷新页面；如果更改的 JS 文件都有更新代码，浏览器只执行更新代码。
+     */
+    update(files: BuildFile[], hotUpdates?: { [path: string]: string }) {
+        const changed: string[] = [];
+        for (const file of files) {
+            const path = "/" + file.name.replace(/\\/g, "/");
+            const hash = Crypto.createHash("md5").update(file.buffer).digest("hex");
+            if (this._files[path] && this._hashes[path] !== hash) changed.push(path);
+            this._files[path] = file;
+            this._hashes[path] = hash;
+        }
+        const reloads = hotUpdates ? changed.filter(path => hotUpdates[path] == null) : changed;
+        if (reloads.some(path => !/\.css$/i.test(path))) {
+            this.notify({ type: "reload" });
+            return;
+        }
+        if (reloads.length) this.notify({ type: "css", paths: reloads });
+        for (const path of changed) {
+            if (!hotUpdates || hotUpdates[path] == null) continue;
+            const url = `${hotUpdateUrl}${++this._hotUpdateCount}.js`;
+            if (this._hotUpdateUrls[path]) delete this._hotUpdates[this._hotUpdateUrls[path]];
+            this._hotUpdates[url] = hotUpdates[path];
+            this._hotUpdateUrls[path] = url;
+            this.notify({ type: "hot", url });
+        }
+    }
+
+    /**
+     * 处理一个请求。
+     * @param req 当前的请求对象。
+     * @param res 当前的响应对象。
+     */
+    protected handleRequest(req: Http.IncomingMessage, res: Http.ServerResponse) {
+        let path: string;
+        try {
+            path = decodeURIComponent(req.url.replace(/[?#].*$/, ""));
+        } catch (e) {
+            return this.writeError(res, 400);
+        }
+
+        // 实时刷新。
+        if (path === liveReloadUrl) {
+            res.writeHead(200, {
+                "Content-Type": "text/event-stream",
+                "Cache-Control": "no-cache",
+                "Connection": "keep-alive"
+            });
+            res.write("\n");
+            this._clients.push(res);
+            req.on("close", () => {
+                const index = this._clients.indexOf(res);
+                if (index >= 0) this._clients.splice(index, 1);
+            });
+            return;
+        }
+        if (path === liveReloadClientUrl) {
+            return this.writeContent(res, getClient(), ".js");
+        }
+
+        // 模块热替换的更新代码。
+        if (this._hotUpdates[path] != null) {
+            return this.writeContent(res, this._hotUpdates[path], ".js");
+        }
+
+        // 已生成的文件。
+        const file = this._files[path] || this._files[path.replace(/\/?$/, "/index.html")];
+        if (file) {
+            return this.writeContent(res, file.buffer, Path.extname(file.name));
+        }
+
+        // 未生成的文件从根文件夹读取。
+        const root = Path.resolve(this.options.root || ".");
+        let local = Path.join(root, path);
+        if (local !== root && local.indexOf(root + Path.sep) !== 0) {
+            return this.writeError(res, 403);
+        }
+        FS.stat(local, (error, stats) => {
+            if (!error && stats.isDirectory()) {
+                local = Path.join(local, "index.html");
+            }
+            FS.readFile(local, (error, buffer) => {
+                if (error) {
+                    this.writeError(res, 404);
+                } else {
+                    this.writeContent(res, buffer, Path.extname(local));
+                }
+            });
+        });
+    }
+
+    /**
+     * 输出文件内容。
+     * @param res 当前的响应对象。
+     * @param content 要输出的内容。
+     * @param ext 内容对应的扩展名。
+     */
+    private writeContent(res: Http.ServerResponse, content: string | Buffer, ext: string) {
+        res.writeHead(200, {
+            "Content-Type": mimeTypes[ext.toLowerCase()] || "application/octet-stream",
+            "Cache-Control": "no-cache"
+        });
+        res.end(content);
+    }
+
+    /**
+     * 输出错误。
+     * @param res 当前的响应对象。
+     * @param statusCode 错误码。
+     */
+    private writeError(res: Http.ServerResponse, statusCode: number) {
+        res.writeHead(statusCode, { "Content-Type": "text/plain" });
+        res.end(Http.STATUS_CODES[statusCode]);
+    }
+
+    // #endregion
+
+    // #region 实时刷新
+
+    /**
+     * 存储所有已连接的浏览器。
+     */
+    private _clients: Http.ServerResponse[] = [];
+
+    /**
+     * 通知所有已连接的浏览器。
+     * @param message 要发送的消息。
+     */
+    notify(message: { type: "reload" } | { type: "css", paths: string[] } | { type: "hot", url: string }) {
+        const data = `data: ${JSON.stringify(message)}\n\n`;
+        for (const client of this._clients) {
+            client.write(data);
+        }
+    }
+
+    // #endregion
+
+}
+
+/**
+ * 表示开发服务器的配置。
+ */
+export interface DevServerOptions {
+
+    /**
+     * 监听的端口。
+     * @default 8080
+     */
+    port?: number;
+
+    /**
+     * 监听的主机名。
+     * @default 所有地址
+     */
+    host?: string;
+
+    /**
+     * 提供未生成的文件的根文件夹。
+     * @default "."
+     */
+    root?: string;
+
+    /**
+     * 是否启用模块热替换。启用后更改的 JS 模块将在浏览器中直接替换，无法替换时再刷新页面。
+     * @default false
+     */
+    hot?: boolean;
+
+}
+
+/**
+ * 浏览器接收刷新通知的地址。
+ */
+export const liveReloadUrl = "/__tpack__/livereload";
+
+/**
+ * 实时刷新客户端脚本的地址。
+ */
+export const liveReloadClientUrl = "/__tpack__/livereload.js";
+
+/**
+ * 模块热替换更新代码的地址前缀。
+ */
+export const hotUpdateUrl = "/__tpack__/hot-update/";
+
+/**
+ * 常用扩展名对应的 MIME 类型。
+ */
+const mimeTypes: { [ext: string]: string } = {
+    ".html": "text/html; charset=utf-8",
+    ".htm": "text/html; charset=utf-8",
+    ".js": "application/javascript; charset=utf-8",
+    ".css": "text/css; charset=utf-8",
+    ".json": "application/json; charset=utf-8",
+    ".map": "application/json; charset=utf-8",
+    ".txt": "text/plain; charset=utf-8",
+    ".svg": "image/svg+xml",
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".gif": "image/gif",
+    ".ico": "image/x-icon",
+    ".webp": "image/webp",
+    ".woff": "font/woff",
+    ".woff2": "font/woff2",
+    ".ttf": "font/ttf",
+    ".eot": "application/vnd.ms-fontobject"
+};
+
+/**
+ * 存储实时刷新客户端脚本。
+ */
+let client: string;
+
+/**
+ * 获取实时刷新客户端脚本。
+ */
+function getClient() {
+    return client || (client = FS.readFileSync(require.resolve("../loaders/livereload.js"), "utf-8"));
+}
@@ -0,0 +1,489 @@
+﻿/**
+ * @file JS 词法分析。
+ */
+
+/**
+ * 表示一个标记的类型。
+ */
+export enum TokenType {
+
+    /**
+     * 标识符或关键字。
+     */
+    identifier,
+
+    /**
+     * 数字。
+     */
+    number,
+
+    /**
+     * 字符串（'...' 或 "..."）。
+     */
+    string,
+
+    /**
+     * 模板字符串中不含表达式的片段（如 `` `...${ ``、`` }...${ ``、`` }...` ``）。
+     */
+    template,
+
+    /**
+     * 正则表达式。
+     */
+    regExp,
+
+    /**
+     * 单行注释。
+     */
+    singleComment,
+
+    /**
+     * 多行注释。
+     */
+    multiComment,
+
+    /**
+     * 运算符或标点。
+     */
+    punctuator,
+
+    /**
+     * JSX 文本。
+     */
+    jsxText,
+
+    /**
+     * JSX 中的内置标签名或属性名。
+     */
+    jsxName,
+
+}
+
+/**
+ * 表示一个标记。
+ */
+export interface Token {
+
+    /**
+     * 获取当前标记的类型。
+     */
+    type: TokenType;
+
+    /**
+     * 获取当前标记在源码的起始位置。
+     */
+    start: number;
+
+    /**
+     * 获取当前标记在源码的结束位置（不包括结束位置）。
+     */
+    end: number;
+
+    /**
+     * 判断当前标记和上一个标记之间是否有换行。
+     */
+    newLine: boolean;
+
+}
+
+/**
+ * 将 JS 源码解析为标记列表。空白不会生成标记。
+ * @param content 要解析的源码。
+ * @returns 返回标记列表。
+ * @remark
+ * 根据上一个标记区分正则表达式和除号，并支持模板字符串中嵌套的 `${}` 表达式和 JSX。
+ */
+export function tokenize(content: string) {
+
+    let tokens: Token[] = [];
+    let index = 0;
+    let newLine = false;
+
+    // 下一个 `/` 是否表示正则表达式。
+    let regExpAllowed = true;
+
+    /**
+     * 添加一个标记。
+     */
+    function push(type: TokenType, start: number, end: number) {
+        tokens.push({ type, start, end, newLine });
+        newLine = false;
+        index = end;
+    }
+
+    /**
+     * 跳过空白和注释。
+     */
+    function skipWhitespace() {
+        while (index < content.length) {
+            let c = content.charCodeAt(index);
+            if (c === 10/*\n*/ || c === 13/*\r*/ || c === 0x2028 || c === 0x2029) {
+                newLine = true;
+                index++;
+            } else if (c === 32/* */ || c === 9/*\t*/ || c === 11/*\v*/ || c === 12/*\f*/ || c === 0xA0 || c === 0xFEFF) {
+                index++;
+            } else if (c === 47/*/*/ && content.charCodeAt(index + 1) === 47/*/*/ || c === 35/*#*/ && index === 0 && content.charCodeAt(1) === 33/*!*/) {
+                let end = index + 2;
+                while (end < content.length && !isLineTerminator(content.charCodeAt(end))) end++;
+                let hasNewLine = newLine;
+                push(TokenType.singleComment, index, end);
+                newLine = hasNewLine;
+            } else if (c === 47/*/*/ && content.charCodeAt(index + 1) === 42/***/) {
+                let end = content.indexOf("*/", index + 2);
+                end = end < 0 ? content.length : end + 2;
+                let hasNewLine = newLine || /[\r\n\u2028\u2029]/.test(content.substring(index, end));
+                push(TokenType.multiComment, index, end);
+                newLine = hasNewLine;
+            } else {
+                break;
+            }
+        }
+    }
+
+    /**
+     * 解析代码直到遇到未配对的 `}` 或源码结束。未配对的 `}` 不会生成标记。
+     */
+    function scanCode() {
+        let depth = 0;
+
+        // 记录每个未闭合的 `(` 是否是 if/while/for/with 的条件部分（其后的 `/` 表示正则表达式）。
+        let parens: boolean[] = [];
+        while (true) {
+            skipWhitespace();
+            if (index >= content.length) return;
+            let start = index;
+            let c = content.charCodeAt(index);
+
+            // 数字。
+            if (c >= 48/*0*/ && c <= 57/*9*/ || c === 46/*.*/ && content.charCodeAt(index + 1) >= 48/*0*/ && content.charCodeAt(index + 1) <= 57/*9*/) {
+                push(TokenType.number, start, matchEnd(numberLiteral));
+                regExpAllowed = false;
+                continue;
+            }
+
+            // 标识符。
+            if (isIdentifierPart(c)) {
+                push(TokenType.identifier, start, matchEnd(identifier));
+                regExpAllowed = regExpKeywords.test(content.substring(start, index));
+                continue;
+            }
+
+            // 括号。
+            if (c === 40/*(*/) {
+                let prev = lastToken();
+                parens.push(prev != null && prev.type === TokenType.identifier && conditionKeywords.test(content.substring(prev.start, prev.end)));
+                push(TokenType.punctuator, start, index + 1);
+                regExpAllowed = true;
+                continue;
+            }
+            if (c === 41/*)*/) {
+                push(TokenType.punctuator, start, index + 1);
+                regExpAllowed = parens.pop() === true;
+                continue;
+            }
+
+            switch (c) {
+
+                // 字符串。
+                case 34/*"*/:
+                case 39/*'*/:
+                    push(TokenType.string, start, scanString(c));
+                    regExpAllowed = false;
+                    continue;
+
+                // 模板字符串。
+                case 96/*`*/:
+                    scanTemplate();
+                    regExpAllowed = false;
+                    continue;
+
+                // 正则表达式或除号。
+                case 47/*/*/:
+                    if (regExpAllowed) {
+                        push(TokenType.regExp, start, scanRegExp());
+                        regExpAllowed = false;
+                    } else {
+                        push(TokenType.punctuator, start, content.charCodeAt(index + 1) === 61/*=*/ ? index + 2 : index + 1);
+                        regExpAllowed = true;
+                    }
+                    continue;
+
+                // 属性访问。
+                case 46/*.*/:
+                    push(TokenType.punctuator, start, content.startsWith("...", index) ? index + 3 : index + 1);
+                    regExpAllowed = true;
+                    continue;
+
+                // 代码块或对象字面量。
+                case 123/*{*/:
+                    depth++;
+                    push(TokenType.punctuator, start, index + 1);
+                    regExpAllowed = true;
+                    continue;
+                case 125/*}*/:
+                    if (--depth < 0) return;
+                    push(TokenType.punctuator, start, index + 1);
+                    regExpAllowed = true;
+                    continue;
+
+                case 93/*]*/:
+                    push(TokenType.punctuator, start, index + 1);
+                    regExpAllowed = false;
+                    continue;
+
+                // 后缀运算符后不能是正则表达式。
+                case 43/*+*/:
+                case 45/*-*/:
+                    if (content.charCodeAt(index + 1) === c) {
+                        push(TokenType.punctuator, start, index + 2);
+                        regExpAllowed = false;
+                        continue;
+                    }
+                    break;
+
+                // JSX 只能出现在表达式开头。
+                case 60/*<*/:
+                    if (regExpAllowed && /[A-Za-z_$>]/.test(content.charAt(index + 1))) {
+                        scanJsxElement();
+                        regExpAllowed = false;
+                        continue;
+                    }
+                    break;
+
+            }
+
+            push(TokenType.punctuator, start, index + 1);
+            regExpAllowed = true;
+        }
+    }
+
+    /**
+     * 获取最后一个非注释标记。
+     */
+    function lastToken() {
+        for (let i = tokens.length - 1; i >= 0; i--) {
+            if (tokens[i].type !== TokenType.singleComment && tokens[i].type !== TokenType.multiComment) {
+                return tokens[i];
+            }
+        }
+        return null;
+    }
+
+    /**
+     * 从当前位置匹配指定的正则表达式并返回结束位置。
+     * @param re 要匹配的正则表达式。必须包含 y 标记。
+     */
+    function matchEnd(re: RegExp) {
+        re.lastIndex = index;
+        return re.exec(content) ? re.lastIndex : index + 1;
+    }
+
+    /**
+     * 解析一个字符串并返回结束位置。
+     * @param quote 字符串的引号。
+     */
+    function scanString(quote: number) {
+        let end = index + 1;
+        while (end < content.length) {
+            let c = content.charCodeAt(end);
+            if (c === quote) return end + 1;
+            if (c === 92/*\*/) {
+                end += content.charCodeAt(end + 1) === 13/*\r*/ && content.charCodeAt(end + 2) === 10/*\n*/ ? 3 : 2;
+                continue;
+            }
+            if (c === 10/*\n*/ || c === 13/*\r*/) return end;
+            end++;
+        }
+        return end;
+    }
+
+    /**
+     * 解析一个正则表达式并返回结束位置。
+     */
+    function scanRegExp() {
+        let end = index + 1;
+        let inClass = false;
+        while (end < content.length) {
+            let c = content.charCodeAt(end);
+            if (isLineTerminator(c)) return end;
+            if (c === 92/*\*/) {
+                end += 2;
+                continue;
+            }
+            if (c === 91/*[*/) {
+                inClass = true;
+            } else if (c === 93/*]*/) {
+                inClass = false;
+            } else if (c === 47/*/*/ && !inClass) {
+                end++;
+                while (end < content.length && isIdentifierPart(content.charCodeAt(end))) end++;
+                return end;
+            }
+            end++;
+        }
+        return end;
+    }
+
+    /**
+     * 解析一个模板字符串，包括嵌套的表达式。
+     */
+    function scanTemplate() {
+        let start = index;
+        let end = index + 1;
+        while (end < content.length) {
+            let c = content.charCodeAt(end);
+            if (c === 96/*`*/) {
+                push(TokenType.template, start, end + 1);
+                return;
+            }
+            if (c === 92/*\*/) {
+                end += 2;
+                continue;
+            }
+            if (c === 36/*$*/ && content.charCodeAt(end + 1) === 123/*{*/) {
+                push(TokenType.template, start, end + 2);
+                regExpAllowed = true;
+                scanCode();
+                if (index >= content.length) return;
+
+                // 表达式结束后继续解析模板字符串的剩余部分。
+                start = index;
+                end = index + 1;
+                continue;
+            }
+            end++;
+        }
+        push(TokenType.template, start, end);
+    }
+
+    /**
+     * 解析一个 JSX 元素，包括其属性和子节点。
+     */
+    function scanJsxElement() {
+
+        // <tag attr="value" attr={expression}>
+        push(TokenType.punctuator, index, index + 1);
+
+        // 组件名（如 <Component>、<ns.Component>）引用了变量，内置标签名（如 <div>）不是变量。
+        skipWhitespace();
+        if (index < content.length && isIdentifierPart(content.charCodeAt(index))) {
+            let end = matchEnd(jsxName);
+            let name = content.substring(index, end);
+            if (/^[a-z][^.]*$/.test(name)) {
+                push(TokenType.jsxName, index, end);
+            } else {
+                let first = /^[^.:\-]*/.exec(name)[0].length;
+                push(TokenType.identifier, index, index + first);
+                if (index < end) push(TokenType.jsxName, index, end);
+            }
+        }
+
+        while (true) {
+            skipWhitespace();
+            if (index >= content.length) return;
+            let c = content.charCodeAt(index);
+            if (c === 47/*/*/ && content.charCodeAt(index + 1) === 62/*>*/) {
+                push(TokenType.punctuator, index, index + 2);
+                return;
+            }
+            if (c === 62/*>*/) {
+                push(TokenType.punctuator, index, index + 1);
+                break;
+            }
+            if (c === 34/*"*/ || c === 39/*'*/) {
+                push(TokenType.string, index, scanString(c));
+            } else if (c === 123/*{*/) {
+                scanJsxExpression();
+            } else if (isIdentifierPart(c)) {
+                push(TokenType.jsxName, index, matchEnd(jsxName));
+            } else {
+                push(TokenType.punctuator, index, index + 1);
+            }
+        }
+
+        // 子节点。
+        while (index < content.length) {
+            let c = content.charCodeAt(index);
+            if (c === 123/*{*/) {
+                scanJsxExpression();
+            } else if (c === 60/*<*/) {
+
+                // </tag>
+                if (content.charCodeAt(index + 1) === 47/*/*/) {
+                    let end = content.indexOf(">", index + 2);
+                    push(TokenType.punctuator, index, end < 0 ? content.length : end + 1);
+                    return;
+                }
+                scanJsxElement();
+            } else {
+                let end = index + 1;
+                while (end < content.length && content.charCodeAt(end) !== 123/*{*/ && content.charCodeAt(end) !== 60/*<*/) end++;
+                push(TokenType.jsxText, index, end);
+            }
+        }
+    }
+
+    /**
+     * 解析 JSX 中 `{...}` 内的表达式。
+     */
+    function scanJsxExpression() {
+        push(TokenType.punctuator, index, index + 1);
+        regExpAllowed = true;
+        scanCode();
+        if (index < content.length) {
+            push(TokenType.punctuator, index, index + 1);
+        }
+    }
+
+    // 解析到源码结束。多余的 `}` 作为普通标点处理。
+    while (index < content.length) {
+        scanCode();
+        if (index < content.length) {
+            push(TokenType.punctuator, index, index + 1);
+            regExpAllowed = true;
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * 匹配标识符。
+ */
+var identifier = /(?:[\w$\u0080-\uffff]|\\u[\da-fA-F]{4}|\\u\{[\da-fA-F]+\})+/y;
+
+/**
+ * 匹配数字。
+ */
+var numberLiteral = /(?:0[xXbBoO][\da-fA-F_]+|\d[\d_]*(?:\.[\d_]*)?(?:[eE][+-]?[\d_]+)?|\.[\d_]+(?:[eE][+-]?[\d_]+)?)n?/y;
+
+/**
+ * 匹配 JSX 标签名或属性名（允许包含 `-`、`.` 和 `:`）。
+ */
+var jsxName = /[\w$\u0080-\uffff\-.:]+/y;
+
+/**
+ * 匹配之后可以出现正则表达式的关键字。
+ */
+var regExpKeywords = /^(?:return|typeof|instanceof|in|of|new|delete|void|throw|case|do|else|yield|await)$/;
+
+/**
+ * 匹配之后的括号表示条件的关键字。
+ */
+var conditionKeywords = /^(?:if|while|for|with)$/;
+
+/**
+ * 判断指定的字符是否可以作为标识符或数字的一部分。
+ * @param c 要判断的字符编码。
+ */
+function isIdentifierPart(c: number) {
+    return c >= 97/*a*/ && c <= 122/*z*/ || c >= 65/*A*/ && c <= 90/*Z*/ || c >= 48/*0*/ && c <= 57/*9*/ || c === 95/*_*/ || c === 36/*$*/ || c === 92/*\*/ || c >= 0x80 && c !== 0xA0 && c !== 0xFEFF && c !== 0x2028 && c !== 0x2029;
+}
+
+/**
+ * 判断指定的字符是否是换行符。
+ * @param c 要判断的字符编码。
+ */
+function isLineTerminator(c: number) {
+    return c === 10/*\n*/ || c === 13/*\r*/ || c === 0x2028 || c === 0x2029;
+}
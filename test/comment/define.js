@@ -0,0 +1,22 @@
+﻿// #define LOCAL
+// #define VERSION "1.0"
+
+// #ifdef LOCAL
+T
+// #else
+F
+// #endif
+
+// #undef LOCAL
+
+// #ifndef LOCAL
+T
+// #else
+F
+// #endif
+
+// #if VERSION === "1.0"
+T
+// #endif
+
+var version = __macro("VERSION");
@@ -0,0 +1,11 @@
+﻿// #if F
+// #require ./require/not-found.js
+// #include "./include/not-found.js"
+require("./require/not-found.js");
+// #endif
+
+// #region F
+require("./require/not-found.js");
+// #endregion
+
+require("./require/a.js");
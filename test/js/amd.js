@@ -0,0 +1,6 @@
+// #target requirejs
+
+define(["./require/c.js", "require"], function (c, require) {
+    var d = require("./require/d.js");
+    c.func();
+});
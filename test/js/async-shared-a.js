@@ -0,0 +1,8 @@
+// 与 async-shared-b.js 共用 require/shared.js 的分包。
+// 本入口已载入 require/c.js，但 async-shared-b.js 未载入，分包仍需包含 require/c.js，且两个入口生成的分包内容相同。
+var c = require("./require/c.js");
+
+import("./require/shared.js").then(function (shared) {
+    c.func();
+    shared.func();
+});
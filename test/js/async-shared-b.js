@@ -0,0 +1,4 @@
+// 与 async-shared-a.js 共用 require/shared.js 的分包，分包内容与入口的生成顺序无关。
+import("./require/shared.js").then(function (shared) {
+    shared.func();
+});
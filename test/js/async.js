@@ -0,0 +1,9 @@
+var c = require("./require/c.js");
+
+require("./require/d.js", function (d) {
+    c.func();
+});
+
+require(["./require/c.js", "./require/style.css"], function (c) {
+    c.func();
+});
@@ -0,0 +1,7 @@
+// circular.js -> require/circular.js -> circular.js
+var other = require("./require/circular.js");
+
+exports.name = "circular";
+exports.other = function () {
+    return other.name;
+};
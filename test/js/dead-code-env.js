@@ -0,0 +1,23 @@
+// 配置 js.globals 后 process.env.NODE_ENV 被替换为 "production"，DEBUG 被替换为 false，不会执行的分支被删除，require/not-found.js 不会被打包。
+// 删除的分支内 var 声明的变量会被提升，删除后保留为 `var warning;`。
+if (process.env.NODE_ENV !== "production") {
+    var warning = require("./require/not-found.js");
+} else {
+    require("./require/c.js");
+}
+
+var trace = DEBUG && require("./require/not-found.js");
+
+// 当前模块内声明的同名变量不会被替换，条件不是常量，分支保留。
+function log(DEBUG) {
+    if (DEBUG) {
+        console.log(warning);
+    }
+}
+
+// 名为 if 的方法不是 if 语句。
+var checker = {
+    if(DEBUG) {
+        return DEBUG;
+    }
+};
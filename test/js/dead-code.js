@@ -0,0 +1,22 @@
+// require/d.js 和 require/not-found.js 都在不会执行的分支内，不会被打包。
+if (false) {
+    require("./require/not-found.js");
+} else {
+    require("./require/c.js");
+}
+
+var debug = "production" !== "production" && require("./require/not-found.js");
+var utils = true ? require("./require/utils.js") : require("./require/d.js");
+
+// 删除的分支内 var 声明的变量会被提升，删除后保留为 `var removed;`。
+if (false) {
+    var removed = require("./require/not-found.js");
+}
+
+// 无法按 JS 语义计算的转义（如 \x41）和数字写法（如八进制 010）不作为常量，条件保持不变，require/c.js 仍被打包。
+if ("\x41" !== "A") {
+    require("./require/c.js");
+}
+if (010 !== 8) {
+    require("./require/c.js");
+}
@@ -0,0 +1,21 @@
+import c from "./require/c.js";
+import * as d from "./require/d.js";
+import "./require/style.css";
+
+export var name = "esm";
+
+export function func() {
+    return c.func() + d.func();
+}
+
+// 内层作用域重新声明的同名变量不是导入项。
+export function shadow(c) {
+    var d = c;
+    return d.func();
+}
+
+export const { a, b: [e] } = d;
+
+export default { name };
+
+export * from "./require/c.js";
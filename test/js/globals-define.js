@@ -0,0 +1,7 @@
+// js.globals 配置为数组：process.env.NODE_ENV 被替换为 define 配置中的 "production"，VERSION 被替换为下一行定义的宏 "1.0"，且不再引入 process 模块。
+// #define VERSION "1.0"
+if (process.env.NODE_ENV !== "production") {
+    require("./require/not-found.js");
+}
+
+var version = VERSION;
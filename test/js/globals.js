@@ -0,0 +1,12 @@
+// js.globals 配置为对象：process.env.NODE_ENV 被替换为 "production"，__DEV__ 被替换为 false，且不再引入 process 模块。
+// 替换后条件为常量，不会执行的分支被删除，require/not-found.js 不会被打包。
+if (process.env.NODE_ENV !== "production") {
+    require("./require/not-found.js");
+}
+
+var dev = __DEV__ && require("./require/not-found.js");
+
+// 同名的参数不会被替换。
+function log(__DEV__) {
+    return __DEV__;
+}
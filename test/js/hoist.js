@@ -0,0 +1,10 @@
+// 开启 scopeHoisting 后 require/utils.js 和 require/math.js 被提升到当前模块内，不再生成 __tpack__.define()。
+// 提升后与其它模块同名的顶级变量被重命名（如 require/math.js 中的 name 重命名为 name_1），未使用的 sub() 被删除。
+// 使用 __filename 等符号不影响提升，为其添加的变量同样会在重名时重命名。
+import { used } from "./require/utils.js";
+import { add } from "./require/math.js";
+
+var name = "hoist";
+
+used();
+alert(add(1, 2) + name + __filename);
@@ -0,0 +1,6 @@
+var c = require("./require/c.js");
+
+import("./require/d.js").then(function (d) {
+    c.func();
+    d.func();
+});
@@ -0,0 +1,6 @@
+var circular = require("../circular.js");
+
+exports.name = "require/circular";
+exports.other = function () {
+    return circular.name;
+};
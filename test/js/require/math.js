@@ -0,0 +1,9 @@
+var name = "math: " + __filename;
+
+export function add(x, y) {
+    return x + y;
+}
+
+export function sub(x, y) {
+    return x - y;
+}
@@ -0,0 +1,6 @@
+var c = require("./c.js");
+
+exports.func = function () {
+    c.func();
+    alert("shared");
+};
@@ -0,0 +1,7 @@
+﻿export function used() {
+    alert("used");
+}
+
+export function unused() {
+    alert("unused");
+}
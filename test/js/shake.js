@@ -0,0 +1,4 @@
+// require/utils.js 中未使用的 unused() 被删除。
+import { used } from "./require/utils.js";
+
+used();
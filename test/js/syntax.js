@@ -0,0 +1,10 @@
+var c = require("./require/c.js");
+
+// 模板字符串中的文本不是依赖。
+var text = `require("./require/none.js") ${require("./require/d.js").func()}`;
+
+// 除号和正则表达式。
+var ratio = c.width / c.height / 2;
+if (/require\("(.*)"\)/.test(text)) {
+    c.func(/\//g);
+}
@@ -97,6 +97,24 @@ describe('BuildModule', function () {
 
             assert.equal(a.resolveMacro("", 0, "中文"), true);
 
+            assert.equal(a.resolveMacro("", 0, "C === 'C' && !D"), true);
+            assert.equal(a.resolveMacro("", 0, "defined(A) && !defined(E)"), true);
+            assert.equal(a.resolveMacro("", 0, "-B < 0"), true);
+            assert.equal(a.resolveMacro("", 0, "window || require"), undefined);
+
+        });
+
+        it('resolveMacro: 不执行代码', function () {
+            var a = new BuildModule(tpack.createFile("a"), {});
+            a.report = function (source, sourceIndex, message, args) {
+                this.lastError = sourceIndex;
+            };
+
+            global.macroInjected = false;
+            assert.equal(a.resolveMacro("A = (macroInjected = true)", 0, "A = (macroInjected = true)"), null);
+            assert.equal(global.macroInjected, false);
+            assert.equal(a.lastError, 2);
+
         });
 
     });
@@ -2,4 +2,37 @@
 tpack.destPath = "_build";
 tpack.sourceMap = true;
 
-tpack.src("*/**").pipe(require("../"));
\ No newline at end of file
+tpack.src("*/**", "!js/hoist.js", "!js/globals*.js", "!js/dead-code-env.js").pipe(require("../"));
+
+tpack.src("js/hoist.js").pipe(require("../"), {
+    js: {
+        scopeHoisting: true
+    }
+});
+
+tpack.src("js/globals.js").pipe(require("../"), {
+    js: {
+        globals: {
+            "process.env.NODE_ENV": "production",
+            __DEV__: false
+        }
+    }
+});
+
+tpack.src("js/globals-define.js").pipe(require("../"), {
+    define: {
+        "process.env.NODE_ENV": "production"
+    },
+    js: {
+        globals: ["process.env.NODE_ENV", "VERSION"]
+    }
+});
+
+tpack.src("js/dead-code-env.js").pipe(require("../"), {
+    js: {
+        globals: {
+            "process.env.NODE_ENV": "production",
+            DEBUG: false
+        }
+    }
+});
\ No newline at end of file